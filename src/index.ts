@@ -1,3 +1,6 @@
+import { EventEmitter } from 'events';
+import { Duplex, DuplexOptions, Readable, Writable } from 'stream';
+
 const fibers = require('fibers');
 
 export type Callback<T> = (err: any, result?: T) => void;
@@ -15,74 +18,518 @@ export type Thunk<T> = (cb: Callback<T>) => void;
 ///   * `result = wait(promise/callback)` encapsulate promise or callback.
 ///     Concretely, the fiber is suspended while the asynchronous task is not finished, then it resumes.
 ///     As many `wait()` as needed may be used in a run.
-export let wait = <T = any>(promiseOrCallback: Promise<T> | Thunk<T>): T => {
+///   * `result = wait(promise/callback, { timeout })` throws a `TimeoutError` if the task does not complete within `timeout` milliseconds.
+///   `wait` also throws a `DeadlineExceededError` if the deadline set by `withDeadline` is reached.
+///   * `result = wait(promise/callback, { operation })` describes the operation for `dumpCoroutines()`.
+export interface WaitOptions {
+    timeout?: number;
+    operation?: string;
+}
+
+// Overloaded so that `wait` can still be passed directly to `array.map`.
+export interface Wait {
+    <T = any>(promiseOrCallback: Promise<T> | Thunk<T>): T;
+    <T = any>(promiseOrCallback: Promise<T> | Thunk<T>, options: WaitOptions | undefined): T;
+}
+
+export let wait: Wait = <T = any>(promiseOrCallback: Promise<T> | Thunk<T>, options?: WaitOptions): T => {
     const fiber = fibers.current;
     if (!fiber) throw new Error('cannot wait: no fiber');
+    const token = currentToken();
+    let remaining: number;
+    try {
+        if (token) token.throwIfCancelled();
+        remaining = checkDeadline();
+    } catch (e) {
+        // the promise is abandoned: its rejection must not be reported as unhandled
+        if (typeof promiseOrCallback !== 'function') promiseOrCallback.catch(() => {});
+        throw e;
+    }
+    const timeout = options ? options.timeout : undefined;
+    // Allocated before suspending the fiber so that its stack trace is the one of the waiting call.
+    const timeoutError =
+        remaining < (timeout != null ? timeout : Infinity)
+            ? new DeadlineExceededError(new Date(deadlineKey.get()!), remaining)
+            : timeout != null
+                ? new TimeoutError(timeout)
+                : undefined;
+    // Bookkeeping for the registry and the hooks, which cost nothing when they are not enabled.
+    const coroutine = (registry || hooks) && currentCoroutine();
+    const operation =
+        coroutine &&
+        ((options && options.operation) || (typeof promiseOrCallback === 'function' ? 'thunk' : 'promise'));
+    // Only the first of the completion, the cancellation and the timeout may resume the fiber.
+    let pending = true;
+    const resume = (fn: () => void) => {
+        if (!pending) return;
+        pending = false;
+        const restore = saveContext();
+        try {
+            fn();
+        } finally {
+            restore();
+        }
+    };
     if (typeof promiseOrCallback === 'function') {
         promiseOrCallback((err, res) => {
             process.nextTick(() => {
-                let cx = globals.context;
-                try {
+                resume(() => {
                     if (err) {
                         fiber.throwInto(err);
                     } else {
                         fiber.run(res);
                     }
-                } finally {
-                    globals.context = cx;
-                    cx = null;
-                }
+                });
             });
         });
     } else {
-        promiseOrCallback
-            .then(res => {
-                let cx = globals.context;
-                try {
-                    fiber.run(res);
-                } finally {
-                    globals.context = cx;
-                    cx = null;
-                }
-            })
-            .catch(e => {
-                let cx = globals.context;
-                try {
-                    fiber.throwInto(e);
-                } finally {
-                    globals.context = cx;
-                    cx = null;
-                }
-            });
+        promiseOrCallback.then(
+            res => {
+                resume(() => fiber.run(res));
+            },
+            e => {
+                resume(() => fiber.throwInto(e));
+            },
+        );
     }
+    const unsubscribe =
+        token &&
+        token.onCancel(() => {
+            process.nextTick(() => {
+                resume(() => fiber.throwInto(cancellationError(token)));
+            });
+        });
+    const start = Date.now();
+    const timer =
+        timeoutError &&
+        setTimeout(() => {
+            resume(() => {
+                timeoutError.elapsed = Date.now() - start;
+                fiber.throwInto(timeoutError);
+            });
+        }, timeoutError.timeout);
+    // only once the task has been started without throwing: the finally clause below undoes them.
+    if (coroutine && registry) coroutine.blocked = { operation: operation!, since: Date.now(), stack: blockingStack() };
+    if (coroutine && hooks) callHooks('onWaitStart', { ...hookEvent(coroutine), operation: operation! });
     let cx = globals.context;
+    // the context is entered again after the catch: the stack trace policy must be read before yielding
+    const stackConfig = currentStackTraces();
+    let error: any;
     try {
         return fibers.yield();
     } catch (e) {
-        throw (fullStackError && fullStackError(e)) || e;
+        throw (error = fullStackError(e, stackConfig));
     } finally {
-        globals.context = cx;
+        if (unsubscribe) unsubscribe();
+        if (timer) clearTimeout(timer);
+        if (coroutine) coroutine.blocked = undefined;
+        enterContext(cx);
         cx = null;
+        if (coroutine && hooks) {
+            callHooks('onResume', { ...hookEvent(coroutine), operation: operation!, waitTime: Date.now() - start, error });
+        }
     }
 };
 
-export let run = <T>(fn: () => T): Promise<T> => {
+export interface RunOptions {
+    token?: CancellationToken | AbortSignalLike;
+}
+
+export let run = <T>(fn: () => T, options?: RunOptions): Promise<T> => {
     if (typeof fn !== 'function') {
         throw new Error('run() should take a function as argument');
     }
+    const parent = currentCoroutine();
+    const parentToken = parent && parent.token;
+    const ownToken = options && options.token;
+    // The child token is linked to the parent's token so that cancelling the parent also cancels the child.
+    const token =
+        ownToken && parentToken && ownToken !== parentToken
+            ? new CancellationToken(parentToken, ownToken)
+            : ownToken
+                ? toCancellationToken(ownToken)
+                : parentToken;
     return new Promise((resolve, reject) => {
-        const cx = globals.context;
-        fibers(() => {
+        const restore = saveContext();
+        // coming from code which is not running in a coroutine: the context is the one of AsyncLocalStorage, if bound
+        if (!fibers.current) adoptStore();
+        const coroutine = newCoroutine(token, parent);
+        // the fibers which are not created by run() are not tracked: nothing would remove them from the registry
+        if (registry) registry.set(coroutine.id, coroutine);
+        coroutine.spawnSite = spawnSite(coroutine, parent);
+        const fiber = fibers(() => {
+            // the fiber does not see the async resource of its caller: the context must be entered again
+            enterContext(globals.context);
+            if (hooks) callHooks('onRunStart', hookEvent(coroutine));
+            let error: any;
             try {
                 resolve(fn());
             } catch (e) {
-                reject((cleanFiberStack && cleanFiberStack(e)) || e);
+                error = cleanFiberStack(e);
+                if (coroutine.spawnSite && error instanceof Error && (error as any).cause === undefined) {
+                    setCause(error, coroutine.spawnSite);
+                }
+                if (hooks) callHooks('onError', { ...hookEvent(coroutine), error });
+                reject(error);
+            } finally {
+                if (token && token !== parentToken && token !== ownToken) token.dispose();
+                if (registry) registry.delete(coroutine.id);
+                if (hooks) callHooks('onRunEnd', { ...hookEvent(coroutine), duration: Date.now() - coroutine.started, error });
             }
-        }).run();
-        globals.context = cx;
+        });
+        fiber.fpromise = coroutine;
+        fiber.run();
+        restore();
     });
 };
 
+///
+/// ## Fiberize
+/// * `api = fiberize(obj, options)`
+///   returns an object whose methods call `wait` internally, so that a callback or promise API can be called synchronously
+///   from a coroutine: `fiberize(fs).readdir(path)`. The methods are called with `obj` as `this`.
+///   The own and inherited methods of `obj` are wrapped, except the methods inherited from `Object` and `EventEmitter`,
+///   and the methods whose name ends with `Sync`. The other properties are inherited from `obj`.
+///   The other methods are called with a callback as last argument: if a method returns a promise, the promise is waited on;
+///   if it returns another value than `undefined`, the method is considered synchronous and its result is returned as is;
+///   otherwise the callback is waited on. A method which takes a callback but also returns a value (`dns.lookup` for example)
+///   must be listed in `callback`, and a synchronous method which returns `undefined` must be listed in `exclude`.
+///   `options` may contain:
+///   `promise`: the names of the methods which return a promise; they are not passed a callback.
+///   `callback`: the names of the methods which take a callback; their result is ignored.
+///   `exclude`: the names of the methods which are not wrapped.
+///   The TypeScript type of the result maps the methods which return a promise or take a node callback as last parameter
+///   (with up to 4 parameters in all) to functions which return the result directly. Only the last overload of an overloaded
+///   method is mapped.
+export interface FiberizeOptions {
+    promise?: string[];
+    callback?: string[];
+    exclude?: string[];
+}
+
+export type Fiberized<T> = { [K in keyof T]: FiberizedFunction<T[K]> };
+
+// TypeScript 2.9 does not have rest parameters with tuple types: one case per number of required parameters.
+// A function is assignable to a signature with more parameters, so the signatures with fewer parameters are tested first.
+// `infer` only sees the last overload of an overloaded function (`fs.readFile(path, callback)` for example).
+export type FiberizedFunction<F> = F extends () => infer T
+    ? T extends Promise<infer R> ? () => R : F
+    : F extends (a: infer A) => infer T
+        ? T extends Promise<infer R> ? (a: A) => R : A extends NodeCallback ? () => CallbackResult<A> : F
+        : F extends (a: infer A, b: infer B) => infer T
+            ? T extends Promise<infer R> ? (a: A, b: B) => R : B extends NodeCallback ? (a: A) => CallbackResult<B> : F
+            : F extends (a: infer A, b: infer B, c: infer C) => infer T
+                ? T extends Promise<infer R>
+                    ? (a: A, b: B, c: C) => R
+                    : C extends NodeCallback ? (a: A, b: B) => CallbackResult<C> : F
+                : F extends (a: infer A, b: infer B, c: infer C, d: infer D) => infer T
+                    ? T extends Promise<infer R>
+                        ? (a: A, b: B, c: C, d: D) => R
+                        : D extends NodeCallback ? (a: A, b: B, c: C) => CallbackResult<D> : F
+                    : F;
+
+export type NodeCallback = (err: any, result?: any) => void;
+
+// The result passed to a node callback: `void` if the callback only takes an error.
+export type CallbackResult<C> = C extends (err: any) => void ? void : C extends (err: any, result: infer R) => void ? R : never;
+
+export function fiberize<T extends object>(obj: T, options?: FiberizeOptions): Fiberized<T> {
+    const opts = options || {};
+    const result = Object.create(obj);
+    for (const name of methodNames(obj)) {
+        if (/Sync$/.test(name) || (opts.exclude && opts.exclude.indexOf(name) >= 0)) continue;
+        const fn: Function = (obj as any)[name];
+        const style =
+            opts.promise && opts.promise.indexOf(name) >= 0
+                ? 'promise'
+                : opts.callback && opts.callback.indexOf(name) >= 0
+                    ? 'callback'
+                    : 'auto';
+        result[name] = (...args: any[]) => {
+            if (style === 'promise') return wait(fn.apply(obj, args), { operation: name });
+            // the callback may be called before the method returns: keep its result until we wait on it
+            let resume: Callback<any> | undefined;
+            let early: { err: any; result: any } | undefined;
+            const callback = (err: any, result: any) => (resume ? resume(err, result) : (early = { err, result }));
+            const res = fn.apply(obj, [...args, callback]);
+            if (style === 'auto' && res !== undefined) {
+                if (res && typeof res.then === 'function') return wait(res, { operation: name });
+                return res;
+            }
+            return wait<any>(cb => (early ? cb(early.err, early.result) : (resume = cb)), { operation: name });
+        };
+    }
+    return result;
+}
+
+// The names of the own and inherited methods of `obj`, except those of Object and EventEmitter.
+function methodNames(obj: object) {
+    const names: string[] = [];
+    let proto = obj;
+    while (proto && proto !== Object.prototype && proto !== EventEmitter.prototype) {
+        for (const name of Object.getOwnPropertyNames(proto)) {
+            if (name === 'constructor' || names.indexOf(name) >= 0) continue;
+            const descriptor = Object.getOwnPropertyDescriptor(proto, name);
+            if (descriptor && typeof descriptor.value === 'function') names.push(name);
+        }
+        proto = Object.getPrototypeOf(proto);
+    }
+    return names;
+}
+
+///
+/// ## Cancellation
+/// * `promise = run(fn, { token })`
+///   runs `fn` as a coroutine which can be cancelled cooperatively through `token`.
+///   `token` may be a `CancellationToken` or an `AbortSignal`.
+///   When the token is cancelled, the pending `wait()` of the coroutine (and the ones that follow) throw a `CancellationError`.
+///   This applies to all the functions that wait: `sleep`, `Queue.read/write`, `handshake().wait()`, ...
+///   The token is propagated to the coroutines started by `run` and `map` from inside the cancelled coroutine.
+/// * `token = new CancellationToken(parents...)`
+///   allocates a cancellation token. The token is cancelled when one of its `parents` (tokens or abort signals) is cancelled.
+///   `token.cancel(reason)`: cancels the token.
+///   `token.cancelled`: whether the token has been cancelled.
+///   `token.reason`: the reason passed to `cancel`.
+///   `unsubscribe = token.onCancel(listener)`: registers a listener which is called when the token is cancelled.
+///   `token.throwIfCancelled()`: throws a `CancellationError` if the token has been cancelled.
+///   `token.dispose()`: detaches the token from its parents.
+export class CancellationError extends Error {
+    reason: any;
+    constructor(reason?: any) {
+        super(reason == null ? 'coroutine cancelled' : `coroutine cancelled: ${reason instanceof Error ? reason.message : reason}`);
+        this.name = 'CancellationError';
+        this.reason = reason;
+    }
+}
+
+export interface AbortSignalLike {
+    readonly aborted: boolean;
+    readonly reason?: any;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+export class CancellationToken {
+    _cancelled = false;
+    _reason: any;
+    _listeners: ((reason: any) => void)[] = [];
+    _unlinks: (() => void)[] = [];
+    constructor(...parents: (CancellationToken | AbortSignalLike)[]) {
+        parents.forEach(parent => {
+            if (this._cancelled) return;
+            if (parent instanceof CancellationToken) {
+                this._unlinks.push(parent.onCancel(reason => this.cancel(reason)));
+            } else if (parent.aborted) {
+                this.cancel(parent.reason);
+            } else {
+                const listener = () => this.cancel(parent.reason);
+                parent.addEventListener('abort', listener);
+                this._unlinks.push(() => parent.removeEventListener('abort', listener));
+            }
+        });
+    }
+    get cancelled() {
+        return this._cancelled;
+    }
+    get reason() {
+        return this._reason;
+    }
+    cancel(reason?: any) {
+        if (this._cancelled) return;
+        this._cancelled = true;
+        this._reason = reason;
+        this.dispose();
+        const listeners = this._listeners;
+        this._listeners = [];
+        listeners.forEach(listener => listener(reason));
+    }
+    onCancel(listener: (reason: any) => void): () => void {
+        if (this._cancelled) {
+            listener(this._reason);
+            return () => {};
+        }
+        this._listeners.push(listener);
+        return () => {
+            const i = this._listeners.indexOf(listener);
+            if (i >= 0) this._listeners.splice(i, 1);
+        };
+    }
+    throwIfCancelled() {
+        if (this._cancelled) throw cancellationError(this);
+    }
+    dispose() {
+        const unlinks = this._unlinks;
+        this._unlinks = [];
+        unlinks.forEach(unlink => unlink());
+    }
+}
+
+///
+/// ## Timeouts
+/// * `result = withTimeout(ms, fn)`
+///   executes `fn` in the current coroutine and throws a `TimeoutError` from the pending `wait()` if `fn` does not
+///   complete within `ms` milliseconds. The coroutines started by `fn` are cancelled with the same error.
+/// * `TimeoutError`
+///   the error thrown by `wait(promise/callback, { timeout })` and `withTimeout(ms, fn)`.
+///   Its stack trace is the one of the waiting call (or of the `withTimeout` call).
+///   `err.timeout`: the timeout, in milliseconds.
+///   `err.elapsed`: the time elapsed before the timeout fired, in milliseconds.
+export class TimeoutError extends Error {
+    timeout: number;
+    elapsed: number;
+    constructor(timeout: number) {
+        super(`timeout: operation did not complete within ${timeout}ms`);
+        this.name = 'TimeoutError';
+        this.timeout = timeout;
+        this.elapsed = 0;
+    }
+}
+
+/// * `result = withDeadline(dateOrMs, fn)`
+///   executes `fn` in the current coroutine with a deadline: a `Date`, or a number of milliseconds from now.
+///   The deadline is stored in the context, so it applies to all the coroutines started by `fn`, with `run`, `map`, etc.
+///   Once the deadline is reached, the pending `wait()` calls (and hence `sleep`, `Queue.read`, funnel entries, ...)
+///   throw a `DeadlineExceededError`, and the subsequent ones throw it immediately.
+///   Nested deadlines cannot extend the current deadline: the earliest deadline applies.
+/// * `ms = remainingTime()`
+///   returns the number of milliseconds left before the current deadline (0 if it has been reached),
+///   or `undefined` if there is no deadline. Useful to pass budgets to remote calls.
+/// * `DeadlineExceededError`
+///   the error thrown when the deadline is reached. It is a `TimeoutError`.
+///   `err.deadline`: the deadline, as a `Date`.
+export class DeadlineExceededError extends TimeoutError {
+    deadline: Date;
+    constructor(deadline: Date, timeout: number) {
+        super(timeout);
+        this.message = `deadline exceeded: operation did not complete before ${deadline.toISOString()}`;
+        this.name = 'DeadlineExceededError';
+        this.deadline = deadline;
+    }
+}
+
+export function withDeadline<T>(dateOrMs: Date | number, fn: () => T): T {
+    const deadline = typeof dateOrMs === 'number' ? Date.now() + dateOrMs : dateOrMs.getTime();
+    const current = deadlineKey.get();
+    return deadlineKey.with(current !== undefined && current < deadline ? current : deadline, fn);
+}
+
+export function remainingTime() {
+    const deadline = deadlineKey.get();
+    return deadline !== undefined ? Math.max(0, deadline - Date.now()) : undefined;
+}
+
+// Returns the time left before the deadline (Infinity if there is none). Throws if the deadline has been reached.
+function checkDeadline() {
+    const deadline = deadlineKey.get();
+    if (deadline === undefined) return Infinity;
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) throw new DeadlineExceededError(new Date(deadline), 0);
+    return remaining;
+}
+
+export function withTimeout<T>(ms: number, fn: () => T): T {
+    const coroutine = currentCoroutine();
+    if (!coroutine) throw new Error('withTimeout(fn) not allowed outside run()');
+    const parentToken = coroutine.token;
+    const token = parentToken ? new CancellationToken(parentToken) : new CancellationToken();
+    const timeoutError = new TimeoutError(ms);
+    const start = Date.now();
+    const timer = setTimeout(() => {
+        timeoutError.elapsed = Date.now() - start;
+        token.cancel(timeoutError);
+    }, ms);
+    try {
+        return withToken(coroutine, token, fn);
+    } finally {
+        clearTimeout(timer);
+        token.dispose();
+    }
+}
+
+///
+/// ## Structured concurrency
+/// * `result = scope(s => { s.spawn(fn); ...; return result; })`
+///   executes the body in the current coroutine and lets it spawn child coroutines with `s.spawn(fn)`.
+///   `scope` does not return before all the children have completed, so children never outlive their parent.
+///   If a child or the body fails, the other children are cancelled and the first failure is rethrown.
+///   The children inherit the current context (see `context()`).
+///   `promise = s.spawn(fn)`: starts `fn` as a child coroutine and returns a promise for its result.
+///   `s.cancel(reason)`: cancels the body and all the children. Their cancellation errors are not rethrown:
+///   if the body is interrupted by the cancellation, `scope` returns `undefined` (hence its `T | undefined` result type).
+///   `s.token`: the cancellation token of the scope.
+export interface Scope {
+    spawn<T>(fn: () => T): Promise<T>;
+    cancel(reason?: any): void;
+    readonly token: CancellationToken;
+}
+
+export function scope<T>(body: (s: Scope) => T): T | undefined {
+    const coroutine = currentCoroutine();
+    if (!coroutine) throw new Error('scope(fn) not allowed outside run()');
+    const parentToken = coroutine.token;
+    const token = parentToken ? new CancellationToken(parentToken) : new CancellationToken();
+    const children: Promise<void>[] = [];
+    let ended = false;
+    let cancelled = false;
+    let failed = false;
+    let failure: any;
+    const fail = (err: any) => {
+        if (failed) return;
+        failed = true;
+        failure = err;
+        token.cancel(err);
+    };
+    const s: Scope = {
+        spawn<R>(fn: () => R) {
+            if (ended) throw new Error('cannot spawn: scope has ended');
+            const child = run(fn, { token });
+            children.push(
+                child.then(
+                    () => {},
+                    err => {
+                        // cancellation errors are the consequence of a failure or of an explicit cancel
+                        if (!(token.cancelled && err instanceof CancellationError)) fail(err);
+                    },
+                ),
+            );
+            return child;
+        },
+        cancel(reason?: any) {
+            cancelled = true;
+            token.cancel(reason);
+        },
+        token,
+    };
+    let result: T | undefined;
+    try {
+        result = withToken(coroutine, token, () => body(s));
+    } catch (e) {
+        // like the children, the body may be interrupted by an explicit cancel
+        if (!(cancelled && !failed && e instanceof CancellationError)) {
+            if (!failed) {
+                failed = true;
+                failure = e;
+            }
+            token.cancel(e);
+        }
+    }
+    try {
+        // Children may spawn other children while we are waiting for them.
+        let joined = 0;
+        while (joined < children.length) {
+            const pending = children.slice(joined);
+            joined = children.length;
+            // The join is not interrupted by cancellation (nor by the deadline): cancelled children complete promptly anyway.
+            withToken(coroutine, undefined, () => deadlineKey.with(undefined, () => wait(Promise.all(pending))));
+        }
+    } finally {
+        ended = true;
+        token.dispose();
+    }
+    if (failed) throw failure;
+    return result;
+}
+
 // goodies
 
 /// ## funnel
@@ -108,109 +555,265 @@ export let run = <T>(fn: () => T): Promise<T> => {
 /// The funnel can be closed with `fun.close()`.
 /// When a funnel is closed, the operations that are still in the funnel will continue but their callbacks
 /// won't be called, and no other operation will enter the funnel.
-export function funnel(max = -1): Funnel {
+///
+/// * `fun = funnel(max, { maxQueueLength })`
+///   bounds the number of operations waiting to enter the funnel. Operations which would exceed it are rejected.
+/// * `result = fun(fn, { priority, timeout })`
+///   waiting operations enter the funnel by decreasing `priority` (0 by default), in FIFO order for a given priority.
+///   If `timeout` is set, a `TimeoutError` is thrown if the operation waits more than `timeout` milliseconds to enter.
+/// * `stats = fun.stats()`
+///   returns `{ active, queued, maxQueueWait, completed }`: the number of operations in the funnel, the number of
+///   operations waiting to enter, the longest time (in milliseconds) an operation waited to enter, and the number of
+///   operations which went through the funnel.
+/// * `fun.drain()` or `fun.close({ graceful: true })`
+///   closes the funnel gracefully: no other operation may enter the funnel but the operations which are already queued
+///   are still executed. Waits until the funnel is empty, so that workers can be shut down without interrupting operations.
+///   Unless the funnel is already empty, it must be called from a coroutine, and not from an operation of the funnel itself,
+///   which would wait for itself: it throws (without closing the funnel) otherwise.
+///   `fun.drain({ rejectQueued: true })` rejects the queued operations, like `close()`, and waits for the active ones.
+export interface FunnelOptions {
+    maxQueueLength?: number;
+}
+
+export interface FunnelEntryOptions {
+    priority?: number;
+    timeout?: number;
+}
+
+export interface FunnelCloseOptions {
+    graceful?: boolean;
+}
+
+export interface FunnelDrainOptions {
+    rejectQueued?: boolean;
+}
+
+export interface FunnelStats {
+    active: number;
+    queued: number;
+    maxQueueWait: number;
+    completed: number;
+}
+
+export function funnel(max = -1, options?: FunnelOptions): Funnel {
     if (typeof max !== 'number') {
         throw new Error('bad max number: ' + max);
     }
 
     const _max = max === 0 ? exports.funnel.defaultSize : max;
+    const maxQueueLength = options && options.maxQueueLength != null ? options.maxQueueLength : Infinity;
 
-    // Each bottled coroutine use an handshake to be waked up later when an other quit.
-    // Before waiting on the handshake, it is pushed to this queue.
-    let queue: Handshake[] = [];
+    // Each bottled coroutine waits on an entry which is sorted by priority in this queue.
+    // When a coroutine leaves the funnel, its slot is handed over to the first entry of the queue.
+    interface Entry {
+        priority: number;
+        enqueued: number;
+        granted: boolean;
+        callback?: Callback<void>;
+    }
+    let queue: Entry[] = [];
     let active = 0;
     let closed = false;
+    // callbacks of the drain() calls which wait for the funnel to be empty
+    let idle: Callback<void>[] = [];
+    let maxQueueWait = 0;
+    let completed = 0;
+    // the fibers which execute operations in the funnel, to detect drain() calls which would wait for themselves
+    const insiders: any[] = [];
 
-    function tryEnter<T>(fn: () => T): T {
-        if (active < _max) {
-            active++;
-            try {
-                return fn();
-            } finally {
-                active--;
-                const hk = queue.shift();
-                if (hk) {
-                    hk.notify();
-                }
-            }
+    function execute<T>(fn: () => T): T {
+        insiders.push(fibers.current);
+        try {
+            return fn();
+        } finally {
+            insiders.splice(insiders.indexOf(fibers.current), 1);
+            completed++;
+            release();
+        }
+    }
+
+    function release() {
+        const entry = queue.shift();
+        if (entry) {
+            entry.granted = true;
+            maxQueueWait = Math.max(maxQueueWait, Date.now() - entry.enqueued);
+            if (entry.callback) entry.callback(null);
         } else {
-            return overflow<T>(fn);
+            active--;
+            if (active === 0 && idle.length > 0) {
+                const callbacks = idle;
+                idle = [];
+                callbacks.forEach(cb => cb(null));
+            }
         }
     }
 
-    function overflow<T>(fn: () => T): T {
-        const hk = handshake();
-        queue.push(hk);
-        hk.wait();
-        if (closed) {
+    function overflow<T>(fn: () => T, entryOptions: FunnelEntryOptions): T {
+        if (queue.length >= maxQueueLength) {
+            throw new Error(`cannot execute: funnel queue is full`);
+        }
+        const entry: Entry = { priority: entryOptions.priority || 0, enqueued: Date.now(), granted: false };
+        const i = queue.findIndex(other => other.priority < entry.priority);
+        queue.splice(i >= 0 ? i : queue.length, 0, entry);
+        try {
+            wait<void>(cb => (entry.callback = cb), { timeout: entryOptions.timeout, operation: 'funnel' });
+        } catch (e) {
+            const i = queue.indexOf(entry);
+            if (i >= 0) {
+                queue.splice(i, 1);
+                // the operations which time out are the ones which waited the longest
+                maxQueueWait = Math.max(maxQueueWait, Date.now() - entry.enqueued);
+            }
+            // the slot has been handed over to us before we timed out or got cancelled: pass it on.
+            else if (entry.granted) release();
+            throw e;
+        }
+        // queued operations which have been granted a slot still execute after a graceful close.
+        if (!entry.granted) {
             throw new Error(`cannot execute: funnel has been closed`);
         }
-        // A success is not sure, the entry ticket may have already be taken by another,
-        // so this one may still be delayed by re-entering in overflow().
-        return tryEnter<T>(fn);
+        return execute(fn);
     }
 
-    const fun = function<T>(fn: () => T): T {
+    const fun = function<T>(fn: () => T, entryOptions?: FunnelEntryOptions): T {
         if (closed) {
             throw new Error(`cannot execute: funnel has been closed`);
         }
-        if (_max < 0 || _max === Infinity) {
-            return fn();
+        checkDeadline();
+        if (_max < 0 || _max === Infinity || active < _max) {
+            active++;
+            return execute(fn);
         }
-        return tryEnter(fn);
+        return overflow(fn, entryOptions || {});
     } as Funnel;
 
-    fun.close = () => {
-        queue.forEach(hk => {
-            hk.notify();
+    fun.close = (closeOptions?: FunnelCloseOptions) => {
+        if (closeOptions && closeOptions.graceful) {
+            fun.drain();
+            return;
+        }
+        queue.forEach(entry => {
+            if (entry.callback) entry.callback(null);
         });
         queue = [];
         closed = true;
     };
+    fun.drain = (drainOptions?: FunnelDrainOptions) => {
+        // checked before closing the funnel, so that a failed call does not change its state
+        if (active > 0 && !fibers.current) throw new Error('cannot drain funnel: no fiber');
+        if (insiders.indexOf(fibers.current) >= 0) throw new Error('cannot drain funnel: called from an operation of the funnel');
+        if (drainOptions && drainOptions.rejectQueued) fun.close();
+        closed = true;
+        if (active === 0) return;
+        let draining: Callback<void> | undefined;
+        try {
+            wait<void>(cb => idle.push((draining = cb)), { operation: 'funnel drain' });
+        } catch (e) {
+            const i = draining ? idle.indexOf(draining) : -1;
+            if (i >= 0) idle.splice(i, 1);
+            throw e;
+        }
+    };
+    fun.stats = () => ({
+        active,
+        queued: queue.length,
+        maxQueueWait,
+        completed,
+    });
     return fun;
 }
 (funnel as any).defaultSize = 4;
 
 export interface Funnel {
-    <T>(fn: () => T): T;
-    close(): void;
+    <T>(fn: () => T, options?: FunnelEntryOptions): T;
+    close(options?: FunnelCloseOptions): void;
+    drain(options?: FunnelDrainOptions): void;
+    stats(): FunnelStats;
 }
 
 ///
 /// ## handshake and queue
-/// * `hs = handshake()`
+/// * `hs = handshake<T>()`
 ///   allocates a simple semaphore that can be used to do simple handshakes between two tasks.
 ///   The returned handshake object has two methods:
-///   `hs.wait()`: waits until `hs` is notified.
-///   `hs.notify()`: notifies `hs`.
+///   `value = hs.wait()`: waits until `hs` is notified, and returns the value passed to `notify`.
+///   `hs.notify(value)`: notifies `hs`, passing an optional `value` to the waiter.
 ///   Note: `wait` calls are not queued. An exception is thrown if wait is called while another `wait` is pending.
-export function handshake<T = void>() {
-    let callback: Callback<T> | undefined = undefined,
-        notified = false;
+///   Use a `Condition` if several coroutines need to wait.
+export function handshake<T = void>(): Handshake<T> {
+    return selectableHandshake<T>();
+}
+
+function selectableHandshake<T>(): SelectableHandshake<T> {
+    let waiter: HandshakeWaiter | undefined = undefined,
+        notified: { value: T | undefined } | undefined = undefined;
+    function deliver(w: HandshakeWaiter, value: T | undefined) {
+        w.delivered = true;
+        w.value = value;
+        setImmediate(() => {
+            w.callback(null, value);
+        });
+    }
+    function _wait(w: HandshakeWaiter) {
+        if (waiter) throw new Error('already waiting');
+        if (notified) {
+            if (!claims(w)) return;
+            const value = notified.value;
+            notified = undefined;
+            deliver(w, value);
+        } else {
+            waiter = w;
+        }
+    }
+    function _cancel(w: HandshakeWaiter) {
+        if (waiter === w) waiter = undefined;
+        // a cancelled wait must not swallow a notification
+        else if (w.delivered) notified = { value: w.value };
+    }
     return {
         wait() {
-            return wait<T>((cb: Callback<T>) => {
-                if (callback) throw new Error('already waiting');
-                if (notified) setImmediate(cb);
-                else callback = cb;
-                notified = false;
-            });
+            let w: HandshakeWaiter | undefined;
+            try {
+                return wait<T>(cb => _wait((w = { callback: cb, delivered: false })), { operation: 'handshake' });
+            } catch (e) {
+                if (w) _cancel(w);
+                throw e;
+            }
         },
-        notify() {
-            if (!callback) notified = true;
-            else setImmediate(callback);
-            callback = undefined;
+        notify(value?: T) {
+            const w = waiter;
+            waiter = undefined;
+            if (w && claims(w)) deliver(w, value);
+            else notified = { value };
         },
+        _wait,
+        _cancel,
     };
 }
 
 export interface Handshake<T = void> {
-    wait(): void;
-    notify(): void;
+    wait(): T;
+    notify(value?: T): void;
+}
+
+// The handshakes created by handshake(), which select can wait on.
+interface SelectableHandshake<T> extends Handshake<T> {
+    _wait(waiter: HandshakeWaiter): void;
+    _cancel(waiter: HandshakeWaiter): void;
+}
+
+// A coroutine waiting on a handshake.
+interface HandshakeWaiter {
+    callback: Callback<any>;
+    claim?: () => boolean;
+    // set when the notification has been handed over to the waiter, before its callback is called
+    delivered: boolean;
+    value?: any;
 }
 
 /// * `q = new Queue(options)`
-///   allocates a queue which may be used to send data asynchronously between two tasks.
+///   allocates a queue which may be used to send data asynchronously between tasks.
+///   A queue may be shared by several producers and consumers, to distribute work to a pool of coroutines for example.
 ///   The `max` option can be set to control the maximum queue length.
 ///   When `max` has been reached `q.put(data)` discards data and returns false.
 ///   The returned queue has the following methods:
@@ -218,11 +821,17 @@ export interface QueueOptions {
     max?: number;
 }
 export class Queue<T> {
+    ///   `Queue.END`: the value returned by `q.read()` once the queue has been closed and all its items have been read.
+    static readonly END: unique symbol = Symbol('end of queue');
     _max: number;
-    _callback: Callback<T> | undefined;
     _err: any;
+    _closed = false;
     _q: (T | undefined)[] = [];
-    _pendingWrites: [Callback<T>, T | undefined][] = [];
+    // Readers wait only when the queue is empty, and writers only when it is full. Both are served in FIFO order.
+    _readers: QueueReader<T>[] = [];
+    _pendingWrites: QueueWriter<T>[] = [];
+    // called once, when the queue is closed or failed
+    _onClose?: () => void;
     constructor(options?: QueueOptions | number) {
         if (typeof options === 'number') {
             options = {
@@ -232,55 +841,170 @@ export class Queue<T> {
         options = options || {};
         this._max = options.max != null ? options.max : -1;
     }
-    ///   `data = q.read()`:  dequeue and returns the first item. Waits if the queue is empty. Does not allow concurrent read.
+    ///   `data = q.read()`:  dequeue and returns the first item. Waits if the queue is empty.
+    ///   Concurrent reads are allowed: waiting readers are served in FIFO order.
+    ///   Returns `Queue.END` once the queue has been closed and all its items have been read.
+    ///   Throws the error passed to `q.fail(err)` if the queue has failed.
     read() {
-        return wait<T>((cb: Callback<T>) => {
-            if (this._callback) throw new Error('already getting');
-            if (this._q.length > 0) {
-                const item = this._q.shift();
-                // recycle queue when empty to avoid maintaining arrays that have grown large and shrunk
-                if (this._q.length === 0) this._q = [];
+        let reader: QueueReader<T> | undefined;
+        try {
+            return wait<T | typeof Queue.END>(cb => this._read((reader = { callback: cb, delivered: false })), {
+                operation: 'queue read',
+            });
+        } catch (e) {
+            if (reader) this._cancelRead(reader);
+            throw e;
+        }
+    }
+    _read(reader: QueueReader<T>) {
+        if (this._err || this._q.length > 0 || this._closed) {
+            if (!claims(reader)) return;
+        } else {
+            this._readers.push(reader);
+            return;
+        }
+        if (this._err) {
+            setImmediate(() => {
+                reader.callback(this._err);
+            });
+        } else if (this._q.length > 0) {
+            const item = this._q.shift();
+            // recycle queue when empty to avoid maintaining arrays that have grown large and shrunk
+            if (this._q.length === 0) this._q = [];
+            this._deliver(reader, item);
+            // a slot has been freed: the first pending write can complete
+            const writer = this._nextWriter();
+            if (writer) {
+                this._q.push(writer.item);
                 setImmediate(() => {
-                    cb(this._err, item);
+                    writer.callback(null);
                 });
-                if (this._pendingWrites.length > 0) {
-                    const wr = this._pendingWrites.shift();
-                    setImmediate(() => {
-                        wr && wr[0](this._err, wr[1]);
-                    });
-                }
-            } else {
-                this._callback = cb;
             }
+        } else {
+            setImmediate(() => {
+                reader.callback(null, Queue.END);
+            });
+        }
+    }
+    _nextReader() {
+        let reader: QueueReader<T> | undefined;
+        while ((reader = this._readers.shift()) && !claims(reader)) {}
+        return reader;
+    }
+    _nextWriter() {
+        let writer: QueueWriter<T> | undefined;
+        while ((writer = this._pendingWrites.shift()) && !claims(writer)) {}
+        return writer;
+    }
+    _deliver(reader: QueueReader<T>, item: T | undefined) {
+        reader.delivered = true;
+        reader.item = item;
+        setImmediate(() => {
+            reader.callback(null, item);
         });
     }
-    ///   `q.write(data)`:  queues an item. Waits if the queue is full.
+    _cancelRead(reader: QueueReader<T>) {
+        const i = this._readers.indexOf(reader);
+        if (i >= 0) {
+            this._readers.splice(i, 1);
+        } else if (reader.delivered) {
+            // a cancelled read must not swallow an item: give it to the next reader or put it back at the head of the queue.
+            reader.delivered = false;
+            const next = this._nextReader();
+            if (next) this._deliver(next, reader.item);
+            else this._q.unshift(reader.item);
+        }
+    }
+    ///   `q.write(data)`:  queues an item. Waits if the queue is full. Throws if the queue has been closed.
+    ///   Concurrent writes are allowed: waiting writers are served in FIFO order.
     write(item: T | undefined) {
-        return wait<T>((cb: Callback<T>) => {
-            if (this.put(item)) {
+        let writer: QueueWriter<T> | undefined;
+        try {
+            return wait<void>(cb => this._write((writer = { callback: cb, item })), { operation: 'queue write' });
+        } catch (e) {
+            if (writer) this._cancelWrite(writer);
+            throw e;
+        }
+    }
+    _write(writer: QueueWriter<T>) {
+        if (this._err || this._closed || this._readers.length > 0 || this._max < 0 || this._q.length < this._max) {
+            if (!claims(writer)) return;
+            try {
+                this.put(writer.item, true);
+            } catch (e) {
                 setImmediate(() => {
-                    cb(this._err);
+                    writer.callback(e);
                 });
-            } else {
-                this._pendingWrites.push([cb, item]);
+                return;
             }
-        });
+            setImmediate(() => {
+                writer.callback(null);
+            });
+        } else {
+            this._pendingWrites.push(writer);
+        }
+    }
+    _cancelWrite(writer: QueueWriter<T>) {
+        // the item cannot be taken back if it has already been queued
+        const i = this._pendingWrites.indexOf(writer);
+        if (i >= 0) this._pendingWrites.splice(i, 1);
     }
     ///   `ok = q.put(data)`: queues an item synchronously. Returns true if the queue accepted it, false otherwise.
+    ///   Throws if the queue has been closed.
     put(item: T | undefined, force?: boolean) {
-        if (!this._callback) {
+        if (this._err) throw this._err;
+        if (this._closed) throw new Error('cannot write: queue has been closed');
+        const reader = this._nextReader();
+        if (reader) {
+            this._deliver(reader, item);
+        } else {
             if (this._max >= 0 && this._q.length >= this._max && !force) return false;
             this._q.push(item);
-        } else {
-            const cb = this._callback;
-            this._callback = undefined;
-            setImmediate(() => {
-                cb(this._err, item);
-            });
         }
         return true;
     }
+    ///   `q.close()`: closes the queue. The items which are still in the queue can be read, then `q.read()` returns `Queue.END`.
+    ///   Pending and subsequent writes throw.
+    close() {
+        if (this._closed) return;
+        this._closed = true;
+        this._release(new Error('cannot write: queue has been closed'));
+    }
+    ///   `q.fail(err)`: closes the queue with an error. Pending and subsequent reads and writes throw `err`.
+    fail(err: any) {
+        if (this._err) return;
+        this._err = err;
+        this._closed = true;
+        this._release(err);
+    }
+    ///   `q.closed`: whether the queue has been closed or has failed.
+    get closed() {
+        return this._closed;
+    }
+    _release(writeError: any) {
+        const onClose = this._onClose;
+        this._onClose = undefined;
+        if (onClose) onClose();
+        // pending readers imply that the queue is empty
+        const readers = this._readers;
+        this._readers = [];
+        readers.filter(claims).forEach(reader => {
+            setImmediate(() => {
+                if (this._err) reader.callback(this._err);
+                else reader.callback(null, Queue.END);
+            });
+        });
+        const writers = this._pendingWrites;
+        this._pendingWrites = [];
+        writers.filter(claims).forEach(writer => {
+            setImmediate(() => {
+                writer.callback(writeError);
+            });
+        });
+    }
     ///   `q.end()`: ends the queue. This is the synchronous equivalent of `q.write(_, undefined)`
+    ///   Deprecated: readers cannot tell the `undefined` item which marks the end from a regular item, and the iterators
+    ///   do not stop on it. Use `q.close()` instead.
     end() {
         this.put(undefined, true);
     }
@@ -301,68 +1025,1361 @@ export class Queue<T> {
     get length() {
         return this._q.length;
     }
+    ///   `for (const data of q) { ... }`: iterates over the items of the queue, until the queue is closed.
+    ///   Must be called from a coroutine: every step waits for the next item.
+    [Symbol.iterator](): IterableIterator<T> {
+        const iterator = {
+            next: (): IteratorResult<T> => {
+                const item = this.read();
+                return item === Queue.END ? { done: true, value: undefined as any } : { done: false, value: item };
+            },
+            [Symbol.iterator]: () => iterator,
+        };
+        return iterator;
+    }
+    ///   `for await (const data of q) { ... }`: iterates asynchronously over the items of the queue, until the queue is closed.
+    ///   May be used outside of coroutines, from async functions.
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        const iterator = {
+            next: () =>
+                new Promise<IteratorResult<T>>((resolve, reject) => {
+                    this._read({
+                        callback: (err, item) => {
+                            if (err) reject(err);
+                            else resolve(item === Queue.END ? { done: true, value: undefined as any } : { done: false, value: item as T });
+                        },
+                        delivered: false,
+                    });
+                }),
+            [Symbol.asyncIterator]: () => iterator,
+        };
+        return iterator;
+    }
+    ///   `q = Queue.from(iterable, options)`: allocates a queue and fills it from a coroutine which iterates over `iterable`.
+    ///   `iterable` may be an iterable or an async iterable (an async generator for example).
+    ///   The queue is closed at the end of the iteration, or failed if the iteration throws.
+    ///   `options` are the options of the queue; its `max` option applies backpressure to the iteration.
+    static from<T>(iterable: Iterable<T> | AsyncIterable<T>, options?: QueueOptions | number) {
+        const queue = new Queue<T>(options);
+        run(() => {
+            if (isAsyncIterable(iterable)) {
+                const iterator = iterable[Symbol.asyncIterator]();
+                let result: IteratorResult<T>;
+                try {
+                    while (!(result = wait(iterator.next())).done) queue.write(result.value);
+                } catch (e) {
+                    if (iterator.return) wait(iterator.return());
+                    throw e;
+                }
+            } else {
+                for (const item of iterable) queue.write(item);
+            }
+            queue.close();
+        }).catch(err => {
+            // the consumer may have closed the queue to stop the iteration
+            if (!queue.closed) queue.fail(err);
+        });
+        return queue;
+    }
+}
+
+// Coroutines waiting on a queue.
+// `claim` is set by select(): it is called before the waiter is served and returns false if another case has been selected.
+interface QueueReader<T> {
+    callback: Callback<T | typeof Queue.END>;
+    claim?: () => boolean;
+    // set when an item has been handed over to the reader, before its callback is called
+    delivered: boolean;
+    item?: T;
+}
+
+interface QueueWriter<T> {
+    callback: Callback<void>;
+    claim?: () => boolean;
+    item: T | undefined;
+}
+
+function claims(waiter: { claim?: () => boolean }) {
+    return !waiter.claim || waiter.claim();
 }
 
 ///
-/// ## Continuation local storage (CLS)
-///
-/// * `result = withContext(fn, cx)`
-///   wraps a function so that it executes with context `cx` (or a wrapper around current context if `cx` is falsy).
-///   The previous context will be restored when the function returns (or throws).
-///   returns the wrapped function.
-export function withContext<T>(fn: () => T, cx: any): T {
-    if (!fibers.current) throw new Error('withContext(fn) not allowed outside run()');
-    const oldContext = globals.context;
-    globals.context = cx || Object.create(oldContext);
+/// ## select
+/// * `selected = select(cases)`
+///   waits until one of the `cases` is ready and returns `{ index, value }`, where `index` is the index of the selected case.
+///   Only the selected case is committed: items are not read from (or written to) the queues of the other cases.
+///   If several cases are ready, the first one in `cases` is selected.
+///   The cases may be:
+///   `{ read: q }`: reads an item from queue `q`. `value` is the item (or `Queue.END`).
+///   `{ write: q, value: data }`: writes `data` to queue `q`.
+///   `{ handshake: hs }`: consumes a notification of handshake `hs`. `value` is the value passed to `hs.notify(value)`.
+///   `{ sleep: ms }`: fires after `ms` milliseconds.
+///   `{ promise: p }`: fires when promise `p` is settled. `value` is the value of the promise.
+///   `select` throws if the selected case fails: if the queue has failed or if the promise is rejected for example.
+export type SelectCase =
+    | { read: Queue<any> }
+    | { write: Queue<any>; value: any }
+    | { handshake: Handshake<any> }
+    | { sleep: number }
+    | { promise: Promise<any> };
+
+export interface Selected {
+    index: number;
+    value: any;
+}
+
+export function select(cases: SelectCase[]): Selected {
+    // undo functions of the registered cases, which give back the value if it has been delivered
+    const cancels: (() => void)[] = [];
+    let selected = -1;
+    let completed = false;
+    const claim = (index: number) => () => {
+        if (selected >= 0) return false;
+        selected = index;
+        cancels.forEach((cancel, i) => {
+            if (i !== index) cancel();
+        });
+        return true;
+    };
     try {
-        return fn();
+        const result = wait<Selected>(
+            cb => {
+                for (let i = 0; i < cases.length && selected < 0; i++) {
+                    const callback = (err: any, value?: any) => {
+                        if (err) cb(err);
+                        else cb(null, { index: i, value });
+                    };
+                    cancels[i] = register(cases[i], claim(i), callback);
+                }
+            },
+            { operation: 'select' },
+        );
+        completed = true;
+        return result;
     } finally {
-        globals.context = oldContext;
+        if (selected < 0) {
+            selected = cases.length;
+            cancels.forEach(cancel => cancel());
+        } else if (!completed) {
+            cancels[selected]();
+        }
     }
 }
 
-export function context<T = any>(): T {
-    return globals.context;
+function register(c: SelectCase, claim: () => boolean, callback: Callback<any>): () => void {
+    if ('read' in c) {
+        const reader: QueueReader<any> = { callback, claim, delivered: false };
+        c.read._read(reader);
+        return () => c.read._cancelRead(reader);
+    } else if ('write' in c) {
+        const writer: QueueWriter<any> = { callback, claim, item: c.value };
+        c.write._write(writer);
+        return () => c.write._cancelWrite(writer);
+    } else if ('handshake' in c) {
+        const hs = c.handshake as SelectableHandshake<any>;
+        if (!hs._wait) throw new Error('cannot select: handshake was not created by handshake()');
+        const waiter: HandshakeWaiter = { callback, claim, delivered: false };
+        hs._wait(waiter);
+        return () => hs._cancel(waiter);
+    } else if ('sleep' in c) {
+        const timer = setTimeout(() => {
+            if (claim()) callback(null);
+        }, c.sleep);
+        return () => clearTimeout(timer);
+    } else if ('promise' in c) {
+        c.promise.then(
+            value => {
+                if (claim()) callback(null, value);
+            },
+            err => {
+                if (claim()) callback(err);
+            },
+        );
+        return () => {};
+    } else {
+        throw new Error(`invalid select case: ${JSON.stringify(c)}`);
+    }
 }
 
-///
-/// ## Miscellaneous
-///
-/// * `results = map(collection, fn)`
-///   creates as many coroutines with `fn` as items in `collection` and wait for them to finish to return result array.
-export function map<T, R>(collection: T[], fn: (val: T) => R) {
-    return wait(
-        Promise.all(
-            collection.map(item => {
-                return run(() => fn(item));
-            }),
-        ),
-    );
+function isAsyncIterable<T>(iterable: Iterable<T> | AsyncIterable<T>): iterable is AsyncIterable<T> {
+    return typeof (iterable as any)[Symbol.asyncIterator] === 'function';
 }
 
-/// * `sleep(ms)`
-///   suspends current coroutine for `ms` milliseconds.
-export function sleep(n: number): void {
-    wait(cb => setTimeout(cb, n));
+///
+/// ## Synchronization primitives
+///
+/// Coroutines which wait on these primitives are served in FIFO order.
+/// The waiting methods take an optional `{ timeout }` option: they throw a `TimeoutError` if they are not served in time.
+/// They also throw a `CancellationError` if the coroutine is cancelled while waiting.
+export interface LockOptions {
+    timeout?: number;
 }
 
-/// * `ok = canWait()`
-///   returns whether `wait` calls are allowed (whether we are called from a `run`).
-export function canWait() {
-    return !!fibers.current;
+/// * `mutex = new Mutex()`
+///   allocates a mutual exclusion lock.
+///   The lock is reentrant: the coroutine which holds it may acquire it again, and must release it as many times.
+///   `mutex.acquire(options)`: acquires the lock. Waits if another coroutine holds it.
+///   `ok = mutex.tryAcquire()`: acquires the lock if it is free (or held by the current coroutine) and returns true, returns false otherwise.
+///   `mutex.release()`: releases the lock. Throws if the lock is not held by the current coroutine.
+///   `result = mutex.withLock(fn, options)`: calls `fn()` while holding the lock, and returns its result.
+///   `mutex.locked`: whether the lock is held.
+export class Mutex {
+    _owner: any;
+    _holds = 0;
+    _waiters: LockWaiter[] = [];
+    get locked() {
+        return this._holds > 0;
+    }
+    acquire(options?: LockOptions) {
+        if (this.tryAcquire()) return;
+        waitTurn('mutex', this._waiters, { count: 1, owner: fibers.current }, options, waiter => {
+            if (waiter.granted) this.release();
+        });
+    }
+    tryAcquire() {
+        const owner = fibers.current;
+        if (this._holds > 0 && (!owner || this._owner !== owner)) return false;
+        this._owner = owner;
+        this._holds++;
+        return true;
+    }
+    release() {
+        if (this._holds === 0) throw new Error('cannot release: mutex is not locked');
+        if (this._owner !== fibers.current) throw new Error('cannot release: mutex is held by another coroutine');
+        if (--this._holds > 0) return;
+        // hand the lock over to the first waiter, so that a new comer cannot take it first
+        const next = this._waiters.shift();
+        this._owner = next && next.owner;
+        if (next) {
+            this._holds = 1;
+            grant(next);
+        }
+    }
+    withLock<R>(fn: () => R, options?: LockOptions) {
+        this.acquire(options);
+        try {
+            return fn();
+        } finally {
+            this.release();
+        }
+    }
 }
 
-/// * `wrapped = eventHandler(handler)`
-///   wraps `handler` so that it can call `wait`.
+/// * `lock = new RWLock()`
+///   allocates a readers/writer lock: the lock may be held by several readers or by a single writer.
+///   Writers have precedence: readers wait while a writer holds the lock or is waiting for it.
+///   `lock.acquireRead(options)`, `lock.acquireWrite(options)`: acquire the lock for reading or for writing.
+///   `ok = lock.tryAcquireRead()`, `ok = lock.tryAcquireWrite()`: acquire the lock if it is available and return true, return false otherwise.
+///   `lock.releaseRead()`, `lock.releaseWrite()`: release the lock.
+///   `result = lock.withReadLock(fn, options)`, `result = lock.withWriteLock(fn, options)`: call `fn()` while holding the lock.
+///   `lock.readers`: the number of readers which hold the lock. `lock.writing`: whether a writer holds the lock.
+export class RWLock {
+    _readers = 0;
+    _writer = false;
+    _waitingReaders: LockWaiter[] = [];
+    _waitingWriters: LockWaiter[] = [];
+    get readers() {
+        return this._readers;
+    }
+    get writing() {
+        return this._writer;
+    }
+    acquireRead(options?: LockOptions) {
+        if (this.tryAcquireRead()) return;
+        waitTurn('read lock', this._waitingReaders, { count: 1 }, options, waiter => {
+            if (waiter.granted) this.releaseRead();
+        });
+    }
+    acquireWrite(options?: LockOptions) {
+        if (this.tryAcquireWrite()) return;
+        waitTurn('write lock', this._waitingWriters, { count: 1 }, options, waiter => {
+            if (waiter.granted) this.releaseWrite();
+            // readers may have been waiting behind this writer
+            else this._dispatch();
+        });
+    }
+    tryAcquireRead() {
+        if (this._writer || this._waitingWriters.length > 0) return false;
+        this._readers++;
+        return true;
+    }
+    tryAcquireWrite() {
+        if (this._writer || this._readers > 0) return false;
+        this._writer = true;
+        return true;
+    }
+    releaseRead() {
+        if (this._readers === 0) throw new Error('cannot release: lock is not held by a reader');
+        this._readers--;
+        this._dispatch();
+    }
+    releaseWrite() {
+        if (!this._writer) throw new Error('cannot release: lock is not held by a writer');
+        this._writer = false;
+        this._dispatch();
+    }
+    withReadLock<R>(fn: () => R, options?: LockOptions) {
+        this.acquireRead(options);
+        try {
+            return fn();
+        } finally {
+            this.releaseRead();
+        }
+    }
+    withWriteLock<R>(fn: () => R, options?: LockOptions) {
+        this.acquireWrite(options);
+        try {
+            return fn();
+        } finally {
+            this.releaseWrite();
+        }
+    }
+    _dispatch() {
+        if (this._writer) return;
+        if (this._waitingWriters.length > 0) {
+            if (this._readers > 0) return;
+            this._writer = true;
+            grant(this._waitingWriters.shift()!);
+        } else {
+            const readers = this._waitingReaders;
+            this._waitingReaders = [];
+            this._readers += readers.length;
+            for (const reader of readers) grant(reader);
+        }
+    }
+}
+
+/// * `sem = new Semaphore(permits)`
+///   allocates a counting semaphore with `permits` initial permits.
+///   `sem.acquire(n, options)`: acquires `n` permits (1 by default). Waits until they are available.
+///   The semaphore is fair: a request waits behind the requests which were made before it, even if enough permits are available for it.
+///   `ok = sem.tryAcquire(n)`: acquires `n` permits if they are available and nobody is waiting, and returns true. Returns false otherwise.
+///   `sem.release(n)`: releases `n` permits (1 by default).
+///   `result = sem.withPermits(n, fn, options)`: calls `fn()` while holding `n` permits.
+///   `sem.available`: the number of available permits.
+export class Semaphore {
+    _permits: number;
+    _waiters: LockWaiter[] = [];
+    constructor(permits: number) {
+        this._permits = permits;
+    }
+    get available() {
+        return this._permits;
+    }
+    acquire(n = 1, options?: LockOptions) {
+        if (this.tryAcquire(n)) return;
+        waitTurn('semaphore', this._waiters, { count: n }, options, waiter => {
+            if (waiter.granted) this.release(n);
+            // the requests which were waiting behind this one may be served now
+            else this._dispatch();
+        });
+    }
+    tryAcquire(n = 1) {
+        if (this._waiters.length > 0 || this._permits < n) return false;
+        this._permits -= n;
+        return true;
+    }
+    release(n = 1) {
+        this._permits += n;
+        this._dispatch();
+    }
+    withPermits<R>(n: number, fn: () => R, options?: LockOptions) {
+        this.acquire(n, options);
+        try {
+            return fn();
+        } finally {
+            this.release(n);
+        }
+    }
+    _dispatch() {
+        while (this._waiters.length > 0 && this._waiters[0].count <= this._permits) {
+            const waiter = this._waiters.shift()!;
+            this._permits -= waiter.count;
+            grant(waiter);
+        }
+    }
+}
+
+/// * `latch = new CountDownLatch(count)`
+///   allocates a latch which opens when it has been counted down `count` times.
+///   `latch.wait(options)`: waits until the latch is open.
+///   `ok = latch.tryWait()`: returns true if the latch is open, false otherwise.
+///   `latch.countDown(n)`: decrements the count by `n` (1 by default), and releases the waiting coroutines when it reaches 0.
+///   `latch.count`: the current count.
+export class CountDownLatch {
+    _count: number;
+    _waiters: LockWaiter[] = [];
+    constructor(count: number) {
+        this._count = count;
+    }
+    get count() {
+        return this._count;
+    }
+    wait(options?: LockOptions) {
+        if (this.tryWait()) return;
+        waitTurn('latch', this._waiters, { count: 1 }, options, () => {});
+    }
+    tryWait() {
+        return this._count === 0;
+    }
+    countDown(n = 1) {
+        if (this._count === 0) return;
+        this._count = Math.max(0, this._count - n);
+        if (this._count > 0) return;
+        const waiters = this._waiters;
+        this._waiters = [];
+        for (const waiter of waiters) grant(waiter);
+    }
+}
+
+/// * `barrier = new Barrier(parties)`
+///   allocates a cyclic barrier for `parties` coroutines.
+///   `barrier.wait(options)`: waits until `parties` coroutines are waiting on the barrier, then releases them all.
+///   The barrier is then reset and may be used again.
+///   A coroutine which times out or is cancelled withdraws from the barrier.
+///   `ok = barrier.tryWait()`: trips the barrier if this call completes the party, without waiting.
+///   Returns false, without joining the barrier, if other parties are still missing.
+///   `barrier.waiting`: the number of coroutines waiting on the barrier.
+export class Barrier {
+    _parties: number;
+    _waiters: LockWaiter[] = [];
+    constructor(parties: number) {
+        this._parties = parties;
+    }
+    get waiting() {
+        return this._waiters.length;
+    }
+    wait(options?: LockOptions) {
+        if (this.tryWait()) return;
+        waitTurn('barrier', this._waiters, { count: 1 }, options, () => {});
+    }
+    tryWait() {
+        if (this._waiters.length + 1 < this._parties) return false;
+        const waiters = this._waiters;
+        this._waiters = [];
+        for (const waiter of waiters) grant(waiter);
+        return true;
+    }
+}
+
+/// * `cond = new Condition<T>()`
+///   allocates a condition on which any number of coroutines may wait. `Event<T>` is an alias of `Condition<T>`.
+///   `value = cond.wait(options)`: waits until the condition is notified, and returns the value passed to `notify` or `notifyAll`.
+///   `ok = cond.notify(value)`: wakes up the first waiting coroutine, with `value`. Returns false if no coroutine was waiting.
+///   `count = cond.notifyAll(value)`: wakes up all the waiting coroutines, with `value`. Returns the number of coroutines woken up.
+///   `cond.waiting`: the number of waiting coroutines.
+///   Notifications are not memorized: a coroutine which waits after a notification waits for the next one.
+///   If a coroutine woken up by `notify` times out or is cancelled before resuming, the notification is passed to the next waiter.
+export class Condition<T = void> {
+    _waiters: LockWaiter[] = [];
+    get waiting() {
+        return this._waiters.length;
+    }
+    wait(options?: LockOptions): T {
+        return waitTurn('condition', this._waiters, { count: 1 }, options, waiter => {
+            if (waiter.granted && waiter.single) this.notify(waiter.value);
+        });
+    }
+    notify(value?: T) {
+        const waiter = this._waiters.shift();
+        if (!waiter) return false;
+        waiter.single = true;
+        grant(waiter, value);
+        return true;
+    }
+    notifyAll(value?: T) {
+        const waiters = this._waiters;
+        this._waiters = [];
+        for (const waiter of waiters) grant(waiter, value);
+        return waiters.length;
+    }
+}
+
+export { Condition as Event };
+
+/// * `deferred = new Deferred<T>()`
+///   allocates a one-shot result which may be settled from callback code and waited for by any number of coroutines.
+///   `deferred.resolve(value)`, `deferred.reject(err)`: settle the deferred. Only the first call has an effect; it returns true.
+///   `deferred.callback`: a node-style `(err, value)` callback which settles the deferred.
+///   `value = deferred.wait(options)`: waits until the deferred is settled, and returns its value or throws its error.
+///   Returns (or throws) immediately if the deferred has already been settled.
+///   `deferred.settled`: whether the deferred has been settled.
+export class Deferred<T> {
+    _settled = false;
+    _rejected = false;
+    _value: T | undefined;
+    _err: any;
+    _waiters: LockWaiter[] = [];
+    get settled() {
+        return this._settled;
+    }
+    get callback(): Callback<T> {
+        return (err, value) => {
+            if (err) this.reject(err);
+            else this.resolve(value!);
+        };
+    }
+    resolve(value: T) {
+        if (this._settled) return false;
+        this._settled = true;
+        this._value = value;
+        const waiters = this._waiters;
+        this._waiters = [];
+        for (const waiter of waiters) grant(waiter, value);
+        return true;
+    }
+    reject(err: any) {
+        if (this._settled) return false;
+        this._settled = this._rejected = true;
+        this._err = err;
+        const waiters = this._waiters;
+        this._waiters = [];
+        for (const waiter of waiters) {
+            setImmediate(() => {
+                waiter.callback(err);
+            });
+        }
+        return true;
+    }
+    wait(options?: LockOptions): T {
+        if (this._rejected) throw this._err;
+        if (this._settled) return this._value!;
+        return waitTurn('deferred', this._waiters, { count: 1 }, options, () => {});
+    }
+}
+
+// A coroutine waiting on a synchronization primitive.
+// `count` is the number of permits requested from a semaphore, `owner` the fiber which is waiting for a mutex.
+// `value` is the value passed to the waiter when it is granted, and `single` is set if it was notified individually by a condition.
+interface LockWaiter {
+    callback: Callback<any>;
+    granted: boolean;
+    count: number;
+    owner?: any;
+    value?: any;
+    single?: boolean;
+}
+
+// Waits until the waiter is granted and returns the value passed to `grant`. If the wait fails (timeout, cancellation),
+// the waiter is removed from `waiters` and `onCancel(waiter)` is called, so that the primitive can give back what has been granted meanwhile.
+function waitTurn(
+    operation: string,
+    waiters: LockWaiter[],
+    request: { count: number; owner?: any },
+    options: LockOptions | undefined,
+    onCancel: (waiter: LockWaiter) => void,
+) {
+    const waiter: LockWaiter = { callback: () => {}, granted: false, ...request };
+    try {
+        return wait<any>(
+            cb => {
+                waiter.callback = cb;
+                waiters.push(waiter);
+            },
+            { ...options, operation },
+        );
+    } catch (e) {
+        const i = waiters.indexOf(waiter);
+        if (i >= 0) waiters.splice(i, 1);
+        onCancel(waiter);
+        throw e;
+    }
+}
+
+function grant(waiter: LockWaiter, value?: any) {
+    waiter.granted = true;
+    waiter.value = value;
+    setImmediate(() => {
+        waiter.callback(null, value);
+    });
+}
+
+///
+/// ## Streams
+///
+/// * `q = queueFromReadable(stream, options)`
+///   returns a queue which is fed with the chunks of the readable `stream`.
+///   `options` are the options of the queue. When the queue is full, the stream is paused until the queue has room again.
+///   The queue is closed when the stream ends, and failed when the stream emits an error, so that `q.read()` throws the error.
+///   If the consumer closes the queue, the stream is paused and detached from the queue.
+///   The errors emitted by the stream once it is detached are ignored.
+export function queueFromReadable<T>(stream: Readable, options?: QueueOptions | number) {
+    const queue = new Queue<T>(options);
+    // writes that are waiting for room in the queue, and whether the stream has ended behind them
+    let pending = 0;
+    let ended = false;
+    let detached = false;
+    // the error listener is kept: an error emitted after the end (or by destroy) must not crash the process
+    const detach = () => {
+        detached = true;
+        stream.removeListener('data', onData);
+        stream.removeListener('end', onEnd);
+    };
+    const onData = (chunk: T) => {
+        if (queue.closed) {
+            stream.pause();
+            detach();
+            return;
+        }
+        if (pending === 0 && queue.put(chunk)) return;
+        pending++;
+        stream.pause();
+        queue._write({
+            item: chunk,
+            callback: err => {
+                pending--;
+                if (err) {
+                    detach();
+                } else if (pending === 0) {
+                    if (ended) queue.close();
+                    else stream.resume();
+                }
+            },
+        });
+    };
+    const onEnd = () => {
+        detach();
+        ended = true;
+        if (pending === 0) queue.close();
+    };
+    const onError = (err: any) => {
+        if (detached) return;
+        detach();
+        queue.fail(err);
+    };
+    stream.on('data', onData);
+    stream.on('end', onEnd);
+    stream.on('error', onError);
+    return queue;
+}
+
+/// * `queueToWritable(q, stream)`
+///   writes the items of queue `q` to the writable `stream`, until `q.read()` returns `Queue.END`.
+///   Waits for the `drain` event when the stream's buffer is full, then ends the stream and waits until it has finished.
+///   If the stream emits an error, the queue is failed with it and the error is thrown.
+///   If reading the queue fails (because the queue has been failed by its producer for example), the stream is destroyed
+///   with the error, so that its consumers are not left waiting for its end, and the error is thrown.
+export function queueToWritable<T>(queue: Queue<T>, stream: Writable) {
+    let error: any;
+    const onError = (err: any) => {
+        error = err;
+        queue.fail(err);
+    };
+    stream.on('error', onError);
+    try {
+        let item: T | typeof Queue.END;
+        while ((item = queue.read()) !== Queue.END) {
+            if (!stream.write(item)) streamEvent(stream, 'drain');
+            if (error) throw error;
+        }
+        // 'finish' may be emitted synchronously by end()
+        streamEvent(stream, 'finish', () => stream.end());
+    } catch (e) {
+        if (!error) {
+            // the error emitted by destroy() is the one which is thrown here
+            stream.on('error', () => {});
+            stream.destroy(e);
+        }
+        throw error || e;
+    } finally {
+        stream.removeListener('error', onError);
+    }
+}
+
+/// * `stream = transformStream(fn, options)`
+///   returns a duplex stream which runs `fn(input, output)` in a coroutine.
+///   The chunks written to the stream are written to the `input` queue, and the items written by `fn` to the `output` queue
+///   are pushed to the readable side of the stream.
+///   `input` is closed when the writable side ends, and the readable side ends when `fn` returns.
+///   If `fn` throws, the stream is destroyed with the error.
+///   `options` are passed to the `Duplex` constructor (`objectMode` is true by default).
+///   The `max` option sets the maximum length of the `input` and `output` queues, to apply backpressure.
+export interface TransformStreamOptions extends DuplexOptions, QueueOptions {}
+
+export function transformStream<I, O>(
+    fn: (input: Queue<I>, output: Queue<O>) => void,
+    options?: TransformStreamOptions,
+): Duplex {
+    const { max, ...duplexOptions } = options || ({} as TransformStreamOptions);
+    const input = new Queue<I>(max);
+    const output = new Queue<O>(max);
+    let reading = false;
+    let destroyed = false;
+    const pump = () =>
+        output._read({
+            delivered: false,
+            callback: (err, item) => {
+                if (err) {
+                    duplex.destroy(err);
+                } else if (item === Queue.END) {
+                    duplex.push(null);
+                } else if (duplex.push(item)) {
+                    pump();
+                } else {
+                    reading = false;
+                }
+            },
+        });
+    const duplex = new Duplex({
+        objectMode: true,
+        ...duplexOptions,
+        write: (chunk: I, encoding: string, callback: (err?: any) => void) => input._write({ item: chunk, callback }),
+        final: (callback: (err?: any) => void) => {
+            input.close();
+            callback();
+        },
+        read: () => {
+            if (reading) return;
+            reading = true;
+            pump();
+        },
+        destroy: (err: Error | null, callback: (err: any) => void) => {
+            destroyed = true;
+            const reason = err || new Error('stream has been destroyed');
+            input.fail(reason);
+            output.fail(reason);
+            callback(err);
+        },
+    });
+    run(() => fn(input, output)).then(
+        () => output.close(),
+        err => {
+            if (!destroyed) duplex.destroy(err);
+        },
+    );
+    return duplex;
+}
+
+function streamEvent(stream: EventEmitter, event: string, start?: () => void) {
+    return wait<void>(
+        cb => {
+            const onEvent = () => {
+                stream.removeListener('error', onError);
+                cb(null);
+            };
+            const onError = (err: any) => {
+                stream.removeListener(event, onEvent);
+                cb(err);
+            };
+            stream.once(event, onEvent);
+            stream.once('error', onError);
+            if (start) start();
+        },
+        { operation: `stream ${event}` },
+    );
+}
+
+///
+/// ## Events
+///
+/// * `value = waitEvent(emitter, name, options)`
+///   waits until `emitter` emits the `name` event, and returns the first argument of the event.
+///   `options` may contain:
+///   `rejectOn`: the names of the events which make `waitEvent` throw their first argument (`['error']` by default).
+///   `timeout`: throws a `TimeoutError` if the event is not emitted within `timeout` milliseconds.
+///   The listeners are removed when the event is emitted, and when the wait fails, times out or is cancelled.
+export interface WaitEventOptions {
+    rejectOn?: string[];
+    timeout?: number;
+}
+
+export function waitEvent<T = any>(emitter: EventEmitter, name: string, options?: WaitEventOptions): T {
+    const opts = options || {};
+    let detach: (() => void) | undefined;
+    try {
+        return wait<T>(
+            cb => {
+                detach = listen(emitter, name, opts.rejectOn, {
+                    onEvent: value => cb(null, value),
+                    onError: cb,
+                });
+            },
+            { timeout: opts.timeout, operation: `event ${name}` },
+        );
+    } finally {
+        if (detach) detach();
+    }
+}
+
+/// * `q = eventQueue(emitter, name, options)`
+///   returns a queue which is fed with the first argument of the `name` events of `emitter`, to process them sequentially.
+///   `options` are the options of the queue, and may also contain:
+///   `rejectOn`: the names of the events which fail the queue with their first argument (`['error']` by default).
+///   `closeOn`: the names of the events which close the queue (none by default).
+///   The queue fails if an event is emitted while the queue is full, and if the current coroutine is cancelled.
+///   The listeners are removed when the queue is closed or failed, by the events or by the consumer.
+export interface EventQueueOptions extends QueueOptions {
+    rejectOn?: string[];
+    closeOn?: string[];
+}
+
+export function eventQueue<T = any>(emitter: EventEmitter, name: string, options?: EventQueueOptions) {
+    const opts = options || {};
+    const queue = new Queue<T>(opts);
+    const token = currentToken();
+    const unsubscribe = token && token.onCancel(() => queue.fail(cancellationError(token)));
+    const detach = listen(emitter, name, opts.rejectOn, {
+        onEvent: value => {
+            if (!queue.put(value)) queue.fail(new Error(`event queue overflow: ${name}`));
+        },
+        onError: err => queue.fail(err),
+    });
+    const closeOn = opts.closeOn || [];
+    const onClose = () => queue.close();
+    for (const event of closeOn) emitter.on(event, onClose);
+    queue._onClose = () => {
+        detach();
+        for (const event of closeOn) emitter.removeListener(event, onClose);
+        if (unsubscribe) unsubscribe();
+    };
+    return queue;
+}
+
+interface EventListeners {
+    onEvent: (value: any) => void;
+    onError: (err: any) => void;
+}
+
+// Listens to the `name` and `rejectOn` events. Returns a function which removes the listeners.
+function listen(emitter: EventEmitter, name: string, rejectOn: string[] | undefined, listeners: EventListeners) {
+    const errorEvents = (rejectOn || ['error']).filter(event => event !== name);
+    emitter.on(name, listeners.onEvent);
+    for (const event of errorEvents) emitter.on(event, listeners.onError);
+    return () => {
+        emitter.removeListener(name, listeners.onEvent);
+        for (const event of errorEvents) emitter.removeListener(event, listeners.onError);
+    };
+}
+
+///
+/// ## Continuation local storage (CLS)
+///
+/// * `result = withContext(fn, cx)`
+///   wraps a function so that it executes with context `cx` (or a wrapper around current context if `cx` is falsy).
+///   The previous context will be restored when the function returns (or throws).
+///   returns the wrapped function.
+export function withContext<T>(fn: () => T, cx: any): T {
+    if (!fibers.current) throw new Error('withContext(fn) not allowed outside run()');
+    const oldContext = globals.context;
+    const newContext = cx || Object.create(oldContext);
+    if (typeof newContext === 'object') scopedContexts.add(newContext);
+    enterContext(newContext);
+    try {
+        return fn();
+    } finally {
+        enterContext(oldContext);
+    }
+}
+
+export function context<T = any>(): T {
+    return globals.context;
+}
+
+/// * `useAsyncLocalStorage(storage)`
+///   binds the context to the Node.js `AsyncLocalStorage` instance `storage` (pass `undefined` to unbind it).
+///   Once bound, the context of the current coroutine is the store of `storage`: it is entered in `storage` when the coroutine
+///   starts or resumes, and when `withContext` switches contexts, so that promise-based code called from the coroutine sees it.
+///   Conversely, `run` and `eventHandler` pick up the store of `storage` when they are called from code which does not run in a coroutine.
+///   Fibers lose the async resources which `AsyncLocalStorage` relies on: while `storage` is bound, f-promise restores them
+///   when it switches fibers. Nothing is done while no storage is bound. Disable the storage (`storage.disable()`) after unbinding it.
+export interface AsyncLocalStorageLike {
+    getStore(): any;
+    enterWith(store: any): void;
+}
+
+export function useAsyncLocalStorage(storage: AsyncLocalStorageLike | undefined) {
+    if (storage && asyncWrap === undefined) asyncWrap = loadAsyncWrap() || null;
+    globals.asyncStorage = storage;
+    // entering a store enables the storage now, so that the async resources are tracked before the next fiber switch
+    if (storage) storage.enterWith(fibers.current ? globals.context : storage.getStore());
+}
+
+/// * `key = createContextKey<T>(name, defaultValue)`
+///   creates a typed key to store a value in the current context.
+///   Every key is backed by its own symbol: keys never collide, even if they have the same `name`.
+///   `value = key.get()`: returns the value of the key in the current context, or `defaultValue` if the key has not been set.
+///   `result = key.with(value, fn)`: calls `fn()` in a new context where the key is set to `value`, like `withContext`.
+///   `key.set(value)`: sets the value of the key in the current context. The current context must have been entered by
+///   `withContext`, `key.with` or `restoreContext`: `set` throws outside of such a scope, and outside `run()`, because
+///   the root context is shared by all the coroutines.
+///   `key.name`: the name of the key.
+export interface ContextKey<T> {
+    readonly name: string;
+    get(): T;
+    with<R>(value: T, fn: () => R): R;
+    set(value: T): void;
+}
+
+export function createContextKey<T>(name: string, defaultValue: T): ContextKey<T>;
+export function createContextKey<T>(name: string): ContextKey<T | undefined>;
+export function createContextKey<T>(name: string, defaultValue?: T): ContextKey<T | undefined> {
+    const entry = newContextKey(name, defaultValue);
+    contextKeys.push(entry);
+    return entry.key;
+}
+
+// Creates a key which is not registered in contextKeys: the internal keys are not captured, nor masked by restoreContext.
+function newContextKey<T>(name: string, defaultValue?: T) {
+    const symbol = Symbol(name);
+    const key: ContextKey<T | undefined> = {
+        name,
+        get() {
+            const value = globals.context[symbol];
+            return value === undefined || value === unset ? defaultValue : value;
+        },
+        with<R>(value: T, fn: () => R) {
+            const cx = Object.create(globals.context);
+            cx[symbol] = value;
+            return withContext(fn, cx);
+        },
+        set(value: T) {
+            if (!fibers.current) throw new Error(`${name}.set(value) not allowed outside run()`);
+            if (!scopedContexts.has(globals.context)) throw new Error(`${name}.set(value) not allowed outside withContext()`);
+            globals.context[symbol] = value;
+        },
+    };
+    return { key, symbol };
+}
+
+/// * `snapshot = captureContext()`
+///   returns a map of the context keys which are set in the current context, with their values.
+///   The snapshot may be inspected (its entries are `[key, value]` pairs) and restored later, in another coroutine for example.
+/// * `result = restoreContext(snapshot, fn)`
+///   calls `fn()` in a new context where the keys have the values of `snapshot`, and the keys which are not in `snapshot` are not set.
+export type ContextSnapshot = Map<ContextKey<any>, any>;
+
+export function captureContext(): ContextSnapshot {
+    const cx = globals.context;
+    const snapshot: ContextSnapshot = new Map();
+    contextKeys.forEach(({ key, symbol }) => {
+        if (cx[symbol] !== undefined && cx[symbol] !== unset) snapshot.set(key, cx[symbol]);
+    });
+    return snapshot;
+}
+
+export function restoreContext<R>(snapshot: ContextSnapshot, fn: () => R): R {
+    const cx = Object.create(globals.context);
+    contextKeys.forEach(({ key, symbol }) => {
+        cx[symbol] = snapshot.has(key) ? snapshot.get(key) : unset;
+    });
+    return withContext(fn, cx);
+}
+
+// All the context keys, to capture them. Keys are usually created once, when modules are loaded.
+const contextKeys: { key: ContextKey<any>; symbol: symbol }[] = [];
+// Masks the value that a context inherits from its parent context.
+const unset = Symbol('unset');
+
+// The deadline set by withDeadline, in milliseconds since the epoch.
+const deadlineKey = newContextKey<number>('deadline').key;
+
+///
+/// ## Collections
+///
+/// The collection functions accept arrays, iterables and maps.
+/// `fn` is called with `(value, index)`, or with `(value, key)` if `collection` is a map.
+/// The last parameter controls the parallelism, with the same semantics as `funnel(max)`:
+/// it may be a number or an object with a `concurrency` property.
+/// `1` processes the items serially, in the current coroutine.
+/// `n > 1` processes up to `n` items in parallel, with one coroutine per item in progress.
+/// `0` allows `funnel.defaultSize` items in parallel and a negative value does not limit the parallelism.
+/// Results are always returned in the order of `collection`.
+/// Coroutines inherit the cancellation token of the current coroutine.
+///
+/// By default, the collection functions throw the first error and do not process new items after it.
+/// With the `errors: 'aggregate'` option, they process all the items and then throw an `AggregateError`
+/// which lists every failure with its item index.
+///
+/// * `results = map(collection, fn, options)`
+///   creates as many coroutines with `fn` as items in `collection` and wait for them to finish to return result array.
+///   Unlike the other collection functions, `map` does not limit the parallelism by default.
+export interface CollectionOptions {
+    concurrency?: number;
+    errors?: 'failFast' | 'aggregate';
+}
+
+export function map<K, T, R>(collection: Map<K, T>, fn: (value: T, key: K) => R, options?: CollectionOptions | number): R[];
+export function map<T, R>(collection: Iterable<T>, fn: (value: T, index: number) => R, options?: CollectionOptions | number): R[];
+export function map(collection: Iterable<any>, fn: (value: any, key: any) => any, options?: CollectionOptions | number) {
+    const items = entries(collection);
+    const results = new Array(items.length);
+    iterate(items, iteration(options, -1), (value, key, i) => {
+        results[i] = fn(value, key);
+    });
+    return results;
+}
+
+/// * `results = mapSettled(collection, fn, options)`
+///   like `map` but does not throw: returns a `{ status: 'fulfilled', value }` or `{ status: 'rejected', reason }` record per item.
+export type Settled<R> = { status: 'fulfilled'; value: R } | { status: 'rejected'; reason: any };
+
+export function mapSettled<K, T, R>(collection: Map<K, T>, fn: (value: T, key: K) => R, options?: CollectionOptions | number): Settled<R>[];
+export function mapSettled<T, R>(collection: Iterable<T>, fn: (value: T, index: number) => R, options?: CollectionOptions | number): Settled<R>[];
+export function mapSettled(collection: Iterable<any>, fn: (value: any, key: any) => any, options?: CollectionOptions | number) {
+    const items = entries(collection);
+    const results = new Array<Settled<any>>(items.length);
+    iterate(items, iteration(options, -1), (value, key, i) => {
+        try {
+            results[i] = { status: 'fulfilled', value: fn(value, key) };
+        } catch (e) {
+            results[i] = { status: 'rejected', reason: e };
+        }
+    });
+    return results;
+}
+
+/// * `AggregateError`
+///   the error thrown by the collection functions with the `errors: 'aggregate'` option.
+///   `err.failures`: the `{ index, key, error }` records of the failed items, in collection order.
+///   `err.errors`: the errors, in collection order.
+export interface ItemFailure {
+    index: number;
+    key: any;
+    error: any;
+}
+
+export class AggregateError extends Error {
+    failures: ItemFailure[];
+    errors: any[];
+    constructor(failures: ItemFailure[], total: number) {
+        const details = failures
+            .slice(0, 10)
+            .map(failure => `#${failure.index}: ${failure.error instanceof Error ? failure.error.message : failure.error}`);
+        if (failures.length > 10) details.push('...');
+        super(`${failures.length} of ${total} items failed: ${details.join(', ')}`);
+        this.name = 'AggregateError';
+        this.failures = failures;
+        this.errors = failures.map(failure => failure.error);
+    }
+}
+
+/// * `forEach(collection, fn, options)`
+///   calls `fn` on every item of `collection`. Serial by default.
+export function forEach<K, T>(collection: Map<K, T>, fn: (value: T, key: K) => void, options?: CollectionOptions | number): void;
+export function forEach<T>(collection: Iterable<T>, fn: (value: T, index: number) => void, options?: CollectionOptions | number): void;
+export function forEach(collection: Iterable<any>, fn: (value: any, key: any) => void, options?: CollectionOptions | number) {
+    iterate(entries(collection), iteration(options, 1), (value, key) => {
+        fn(value, key);
+    });
+}
+
+/// * `results = filter(collection, fn, options)`
+///   returns the items for which `fn` returns a truthy value. Returns a map if `collection` is a map. Serial by default.
+export function filter<K, T>(collection: Map<K, T>, fn: (value: T, key: K) => any, options?: CollectionOptions | number): Map<K, T>;
+export function filter<T>(collection: Iterable<T>, fn: (value: T, index: number) => any, options?: CollectionOptions | number): T[];
+export function filter(collection: Iterable<any>, fn: (value: any, key: any) => any, options?: CollectionOptions | number) {
+    const items = entries(collection);
+    const kept = new Array<boolean>(items.length);
+    iterate(items, iteration(options, 1), (value, key, i) => {
+        kept[i] = !!fn(value, key);
+    });
+    const selected = items.filter((item, i) => kept[i]);
+    return collection instanceof Map ? new Map(selected.map(([value, key]) => [key, value] as [any, any])) : selected.map(([value]) => value);
+}
+
+/// * `result = reduce(collection, fn, initial)`
+///   reduces `collection` with `result = fn(result, value, key)`.
+///   Always serial, as every call depends on the result of the previous one.
+export function reduce<K, T, R>(collection: Map<K, T>, fn: (result: R, value: T, key: K) => R, initial: R): R;
+export function reduce<T, R>(collection: Iterable<T>, fn: (result: R, value: T, index: number) => R, initial: R): R;
+export function reduce(collection: Iterable<any>, fn: (result: any, value: any, key: any) => any, initial: any) {
+    let result = initial;
+    iterate(entries(collection), iteration(1, 1), (value, key) => {
+        result = fn(result, value, key);
+    });
+    return result;
+}
+
+/// * `ok = some(collection, fn, options)`
+///   returns whether `fn` returns a truthy value for at least one item. Serial by default.
+///   No new item is processed once the result is known.
+export function some<K, T>(collection: Map<K, T>, fn: (value: T, key: K) => any, options?: CollectionOptions | number): boolean;
+export function some<T>(collection: Iterable<T>, fn: (value: T, index: number) => any, options?: CollectionOptions | number): boolean;
+export function some(collection: Iterable<any>, fn: (value: any, key: any) => any, options?: CollectionOptions | number) {
+    return findIndex(entries(collection), fn, iteration(options, 1)) >= 0;
+}
+
+/// * `ok = every(collection, fn, options)`
+///   returns whether `fn` returns a truthy value for all the items. Serial by default.
+///   No new item is processed once the result is known.
+export function every<K, T>(collection: Map<K, T>, fn: (value: T, key: K) => any, options?: CollectionOptions | number): boolean;
+export function every<T>(collection: Iterable<T>, fn: (value: T, index: number) => any, options?: CollectionOptions | number): boolean;
+export function every(collection: Iterable<any>, fn: (value: any, key: any) => any, options?: CollectionOptions | number) {
+    return findIndex(entries(collection), (value, key) => !fn(value, key), iteration(options, 1)) < 0;
+}
+
+/// * `result = find(collection, fn, options)`
+///   returns the first item (in collection order) for which `fn` returns a truthy value, or `undefined`. Serial by default.
+///   No new item is processed once the result is known.
+export function find<K, T>(collection: Map<K, T>, fn: (value: T, key: K) => any, options?: CollectionOptions | number): T | undefined;
+export function find<T>(collection: Iterable<T>, fn: (value: T, index: number) => any, options?: CollectionOptions | number): T | undefined;
+export function find(collection: Iterable<any>, fn: (value: any, key: any) => any, options?: CollectionOptions | number) {
+    const items = entries(collection);
+    const i = findIndex(items, fn, iteration(options, 1));
+    return i >= 0 ? items[i][0] : undefined;
+}
+
+/// * `results = flatMap(collection, fn, options)`
+///   like `map` but flattens the arrays returned by `fn` into the result. Serial by default.
+export function flatMap<K, T, R>(collection: Map<K, T>, fn: (value: T, key: K) => R | R[], options?: CollectionOptions | number): R[];
+export function flatMap<T, R>(collection: Iterable<T>, fn: (value: T, index: number) => R | R[], options?: CollectionOptions | number): R[];
+export function flatMap(collection: Iterable<any>, fn: (value: any, key: any) => any, options?: CollectionOptions | number) {
+    const items = entries(collection);
+    const results = new Array(items.length);
+    iterate(items, iteration(options, 1), (value, key, i) => {
+        results[i] = fn(value, key);
+    });
+    const flat: any[] = [];
+    results.forEach(result => {
+        if (Array.isArray(result)) flat.push(...result);
+        else flat.push(result);
+    });
+    return flat;
+}
+
+///
+/// ## Retry
+///
+/// * `result = retry(fn, options)`
+///   calls `fn(attempt)` until it succeeds, and returns its result. `attempt` is 1 for the first call.
+///   The coroutine sleeps between attempts. If the last attempt fails, its error is rethrown as is, with its full stack trace.
+///   `options` may contain:
+///   `maxAttempts`: the maximum number of attempts (3 by default, unlimited if `maxTime` is set).
+///   `maxTime`: the maximum total time, in milliseconds. No attempt is made if the delay before it would exceed `maxTime`.
+///   `backoff`: `'fixed'`, `'exponential'` (the default) or `'decorrelatedJitter'`.
+///   `delay`: the base delay, in milliseconds (100 by default). `maxDelay`: the maximum delay between attempts.
+///   `factor`: the factor of the exponential backoff (2 by default).
+///   `shouldRetry(err, attempt)`: returns whether the error is retryable (all errors by default).
+///   `onRetry(err, attempt, delay)`: called before sleeping for `delay` milliseconds after a failed attempt.
+///   A `CancellationError` is never retried, and the sleep between attempts stops if the coroutine is cancelled.
+export interface RetryOptions {
+    maxAttempts?: number;
+    maxTime?: number;
+    backoff?: 'fixed' | 'exponential' | 'decorrelatedJitter';
+    delay?: number;
+    maxDelay?: number;
+    factor?: number;
+    shouldRetry?: (err: any, attempt: number) => boolean;
+    onRetry?: (err: any, attempt: number, delay: number) => void;
+}
+
+export function retry<T>(fn: (attempt: number) => T, options?: RetryOptions): T {
+    const opts = options || {};
+    const maxAttempts = opts.maxAttempts != null ? opts.maxAttempts : opts.maxTime != null ? Infinity : 3;
+    const base = opts.delay != null ? opts.delay : 100;
+    const start = Date.now();
+    let delay = base;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return fn(attempt);
+        } catch (e) {
+            if (e instanceof CancellationError || attempt >= maxAttempts) throw e;
+            if (opts.shouldRetry && !opts.shouldRetry(e, attempt)) throw e;
+            delay = backoffDelay(opts, base, delay, attempt);
+            if (opts.maxTime != null && Date.now() - start + delay > opts.maxTime) throw e;
+            if (opts.onRetry) opts.onRetry(e, attempt, delay);
+            sleep(delay);
+        }
+    }
+}
+
+// Returns the delay before the attempt which follows `attempt`.
+function backoffDelay(opts: RetryOptions, base: number, previous: number, attempt: number) {
+    const maxDelay = opts.maxDelay != null ? opts.maxDelay : Infinity;
+    switch (opts.backoff || 'exponential') {
+        case 'fixed':
+            return Math.min(maxDelay, base);
+        case 'exponential':
+            return Math.min(maxDelay, base * Math.pow(opts.factor || 2, attempt - 1));
+        case 'decorrelatedJitter':
+            // see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+            return Math.min(maxDelay, base + Math.random() * (previous * 3 - base));
+        default:
+            throw new Error(`invalid backoff: ${opts.backoff}`);
+    }
+}
+
+///
+/// ## Diagnostics
+///
+/// * `trackCoroutines(enabled, options)`
+///   enables (or disables) the registry of the coroutines started by `run`.
+///   While enabled, every coroutine records its id, its parent, its start time and the operation on which it is blocked,
+///   with the stack trace of the blocking call. Tracking has a cost: it should be enabled to diagnose hangs.
+///   `options.signal`: a signal which prints the report of `dumpCoroutines()` to stderr (`'SIGUSR2'` by default, `null` for none).
+/// * `infos = listCoroutines()`
+///   returns the tracked coroutines, the ones which have been blocked for the longest time first.
+///   Every info has the following properties: `id`, `parentId`, `started` (a `Date`), `operation`, `blockedSince` (a `Date`),
+///   `waitTime` (in milliseconds) and `stack`. The blocking properties are undefined if the coroutine is running.
+/// * `report = dumpCoroutines()`
+///   returns a human readable report of the tracked coroutines, in the order of `listCoroutines()`.
+export interface TrackingOptions {
+    signal?: string | null;
+}
+
+export interface CoroutineInfo {
+    id: number;
+    parentId?: number;
+    started: Date;
+    operation?: string;
+    blockedSince?: Date;
+    waitTime?: number;
+    stack?: string;
+}
+
+export function trackCoroutines(enabled: boolean, options?: TrackingOptions) {
+    if (reportSignal) process.removeListener(reportSignal as any, printReport);
+    reportSignal = undefined;
+    registry = enabled ? registry || new Map() : undefined;
+    if (!enabled) return;
+    const signal = options && options.signal !== undefined ? options.signal : 'SIGUSR2';
+    if (signal) {
+        reportSignal = signal;
+        process.on(signal as any, printReport);
+    }
+}
+
+export function listCoroutines(): CoroutineInfo[] {
+    if (!registry) return [];
+    const now = Date.now();
+    const infos = Array.from(registry.values(), coroutine => {
+        const blocked = coroutine.blocked;
+        return {
+            id: coroutine.id,
+            parentId: coroutine.parentId,
+            started: new Date(coroutine.started),
+            operation: blocked && blocked.operation,
+            blockedSince: blocked && new Date(blocked.since),
+            waitTime: blocked && now - blocked.since,
+            stack: blocked && blocked.stack,
+        } as CoroutineInfo;
+    });
+    return infos.sort((i1, i2) => (i2.waitTime != null ? i2.waitTime : -1) - (i1.waitTime != null ? i1.waitTime : -1));
+}
+
+export function dumpCoroutines() {
+    const infos = listCoroutines();
+    const lines = [`${infos.length} coroutine(s)`];
+    infos.forEach(info => {
+        const parent = info.parentId ? `, parent #${info.parentId}` : '';
+        const state = info.operation ? `blocked on ${info.operation} for ${info.waitTime}ms` : 'running';
+        lines.push(`#${info.id}${parent}, started ${info.started.toISOString()}: ${state}`);
+        if (info.stack) lines.push(info.stack);
+    });
+    return lines.join('\n');
+}
+
+function printReport() {
+    console.error(dumpCoroutines());
+}
+
+/// * `unregister = addHooks(hooks)`
+///   registers instrumentation hooks, to trace coroutines or to measure their suspension time for example.
+///   `hooks` is an object with optional methods, which receive an event with the `id` of the coroutine, the `parentId`
+///   of the coroutine which started it, and the current `context`:
+///   `onRunStart(event)`: a coroutine starts.
+///   `onRunEnd(event)`: a coroutine ends. `event.duration` is its duration in milliseconds, `event.error` its error if it failed.
+///   `onWaitStart(event)`: a coroutine suspends itself in `wait`. `event.operation` describes the operation (see `dumpCoroutines()`).
+///   `onResume(event)`: a coroutine resumes. `event.waitTime` is the suspension time in milliseconds, `event.error` the error of the wait, if any.
+///   `onError(event)`: a coroutine fails with `event.error`.
+///   Errors thrown by hooks are logged and ignored. The hooks have no cost when none is registered.
+///   Returns a function which unregisters the hooks.
+export interface HookEvent {
+    id: number;
+    parentId?: number;
+    context: any;
+}
+
+export interface Hooks {
+    onRunStart?(event: HookEvent): void;
+    onRunEnd?(event: HookEvent & { duration: number; error?: any }): void;
+    onWaitStart?(event: HookEvent & { operation: string }): void;
+    onResume?(event: HookEvent & { operation: string; waitTime: number; error?: any }): void;
+    onError?(event: HookEvent & { error: any }): void;
+}
+
+export function addHooks(h: Hooks) {
+    hooks = (hooks || []).concat(h);
+    return () => {
+        const remaining = (hooks || []).filter(other => other !== h);
+        hooks = remaining.length > 0 ? remaining : undefined;
+    };
+}
+
+function hookEvent(coroutine: Coroutine): HookEvent {
+    return { id: coroutine.id, parentId: coroutine.parentId, context: globals.context };
+}
+
+function callHooks(name: keyof Hooks, event: HookEvent & { [key: string]: any }) {
+    for (const h of hooks || []) {
+        const hook = h[name] as ((event: HookEvent) => void) | undefined;
+        if (!hook) continue;
+        try {
+            hook.call(h, event);
+        } catch (e) {
+            console.error(`f-promise ${name} hook failed: ${e.stack}`);
+        }
+    }
+}
+
+// The stack trace of a blocking call, without the line of the error message.
+function blockingStack() {
+    return (new Error().stack || '')
+        .split('\n')
+        .slice(1)
+        .join('\n');
+}
+
+/// ## Miscellaneous
+///
+/// * `sleep(ms)`
+///   suspends current coroutine for `ms` milliseconds.
+export function sleep(n: number): void {
+    let timer: NodeJS.Timer | undefined;
+    try {
+        wait(cb => (timer = setTimeout(cb, n)), { operation: `sleep ${n}ms` });
+    } finally {
+        if (timer) clearTimeout(timer);
+    }
+}
+
+/// * `ok = canWait()`
+///   returns whether `wait` calls are allowed (whether we are called from a `run`).
+export function canWait() {
+    return !!fibers.current;
+}
+
+/// * `wrapped = eventHandler(handler, options)`
+///   wraps `handler` so that it can call `wait`.
 ///   the wrapped handler will execute on the current fiber if canWait() is true.
 ///   otherwise it will be `run` on a new fiber (without waiting for its completion)
-export function eventHandler<T extends Function>(handler: T): T {
+///   `options` may contain:
+///   `onError(err)`: called with the error of a handler which runs on a new fiber.
+///   The default is `eventHandler.onError`, which logs the error with `console.error`. It can be read and set via `eventHandler.onError`.
+///   The error handler is called outside of the promise chain: an error thrown by it is an uncaught exception, which crashes the process.
+///   `context`: the context of a handler which runs on a new fiber.
+///   `'fresh'` (the default) creates a new context, on top of the `AsyncLocalStorage` one if bound.
+///   `'inherit'` creates a context on top of the context of the call to `eventHandler`.
+///   A function is called to create the context.
+///   `funnel`: a funnel through which the handlers which run on a new fiber go, to limit their concurrency.
+export interface EventHandlerOptions {
+    onError?: (err: any) => void;
+    context?: 'fresh' | 'inherit' | (() => any);
+    funnel?: Funnel;
+}
+
+export function eventHandler<T extends Function>(handler: T, options?: EventHandlerOptions): T {
+    const opts = options || {};
+    const captured = globals.context;
     const wrapped = function(this: any, ...args: any[]) {
         if (canWait()) {
             handler.apply(this, args);
         } else {
-            run(() => withContext(() => handler.apply(this, args), {})).catch(err => {
-                console.error(err);
+            const cx = handlerContext(opts.context, captured);
+            const fn = () => withContext(() => handler.apply(this, args), cx);
+            run(() => (opts.funnel ? opts.funnel(fn) : fn())).catch(err => {
+                const onError = opts.onError || exports.eventHandler.onError;
+                process.nextTick(() => onError(err));
             });
         }
     } as any;
@@ -370,16 +2387,252 @@ export function eventHandler<T extends Function>(handler: T): T {
     Object.defineProperty(wrapped, 'length', { value: handler.length });
     return wrapped;
 }
+(eventHandler as any).onError = (err: any) => {
+    console.error(err);
+};
+
+/// * `fn2 = asyncify(fn)`
+///   wraps `fn` so that it can be called from async/await code: `fn2(args)` returns a promise for the result of `fn(args)`.
+///   `fn` runs on the current fiber if `canWait()` is true, and in a new coroutine otherwise.
+///   The new coroutine inherits the current context (the `AsyncLocalStorage` one, if bound).
+///   The arguments and the result type are inferred: `fn2` is typed as `(a: A, b: B) => Promise<R>` if `fn` is typed as `(a: A, b: B) => R`.
+/// * `@asyncified`
+///   decorator which applies `asyncify` to a method, or to all the methods of a class.
+///   Decorators cannot change the type of a class: `Asyncified<T>` gives the type of the decorated class instances.
+export type AsyncifiedFunction<F> = F extends () => infer R
+    ? () => Promise<R>
+    : F extends (a: infer A) => infer R
+        ? (a: A) => Promise<R>
+        : F extends (a: infer A, b: infer B) => infer R
+            ? (a: A, b: B) => Promise<R>
+            : F extends (a: infer A, b: infer B, c: infer C) => infer R
+                ? (a: A, b: B, c: C) => Promise<R>
+                : F extends (a: infer A, b: infer B, c: infer C, d: infer D) => infer R
+                    ? (a: A, b: B, c: C, d: D) => Promise<R>
+                    : F extends (...args: any[]) => infer R ? (...args: any[]) => Promise<R> : F;
+
+export type Asyncified<T> = { [K in keyof T]: AsyncifiedFunction<T[K]> };
+
+export function asyncify<F extends Function>(fn: F): AsyncifiedFunction<F> {
+    const wrapped = function(this: any, ...args: any[]) {
+        if (!canWait()) return run(() => fn.apply(this, args));
+        try {
+            return Promise.resolve(fn.apply(this, args));
+        } catch (e) {
+            return Promise.reject(e);
+        }
+    } as any;
+    // preserve arity
+    Object.defineProperty(wrapped, 'length', { value: fn.length });
+    return wrapped;
+}
+
+export function asyncified<C extends Function>(constructor: C): C;
+export function asyncified(target: object, key: string | symbol, descriptor: PropertyDescriptor): PropertyDescriptor;
+export function asyncified(target: any, key?: string | symbol, descriptor?: PropertyDescriptor): any {
+    if (descriptor) return asyncifiedDescriptor(descriptor, key!);
+    for (const name of Object.getOwnPropertyNames(target.prototype)) {
+        const desc = Object.getOwnPropertyDescriptor(target.prototype, name)!;
+        if (name !== 'constructor' && typeof desc.value === 'function') {
+            Object.defineProperty(target.prototype, name, asyncifiedDescriptor(desc, name));
+        }
+    }
+    return target;
+}
 
 // private
 
+// The context of an event handler which runs on a new fiber.
+function handlerContext(strategy: EventHandlerOptions['context'], captured: any) {
+    if (typeof strategy === 'function') return strategy();
+    if (strategy === 'inherit') return Object.create(captured);
+    const store = globals.asyncStorage && globals.asyncStorage.getStore();
+    return store ? Object.create(store) : {};
+}
+
+function asyncifiedDescriptor(descriptor: PropertyDescriptor, key: string | symbol): PropertyDescriptor {
+    if (typeof descriptor.value !== 'function') throw new Error(`cannot asyncify ${String(key)}: not a method`);
+    return { ...descriptor, value: asyncify(descriptor.value) };
+}
+
+// Collection items are normalized as [value, key] pairs.
+function entries(collection: Iterable<any>): [any, any][] {
+    if (collection instanceof Map) return Array.from(collection, ([key, value]) => [value, key] as [any, any]);
+    return Array.from(collection, (value, i) => [value, i] as [any, any]);
+}
+
+interface Iteration {
+    max: number;
+    aggregate: boolean;
+}
+
+function iteration(options: CollectionOptions | number | undefined, defaultConcurrency: number): Iteration {
+    const opts = typeof options === 'number' ? { concurrency: options } : options || {};
+    const max = opts.concurrency != null ? opts.concurrency : defaultConcurrency;
+    return {
+        max: max === 0 ? exports.funnel.defaultSize : max < 0 ? Infinity : max,
+        aggregate: opts.errors === 'aggregate',
+    };
+}
+
+// Calls fn on the items, with at most max calls in progress, until fn returns false.
+// Every coroutine runs a loop which picks the next item so that items are started in order.
+function iterate(items: [any, any][], { max, aggregate }: Iteration, fn: (value: any, key: any, i: number) => boolean | void) {
+    let next = 0;
+    let stopped = false;
+    const failures: ItemFailure[] = [];
+    const worker = () => {
+        try {
+            while (!stopped && next < items.length) {
+                const i = next++;
+                try {
+                    if (fn(items[i][0], items[i][1], i) === false) stopped = true;
+                } catch (e) {
+                    if (!aggregate) throw e;
+                    failures.push({ index: i, key: items[i][1], error: e });
+                }
+            }
+        } catch (e) {
+            stopped = true;
+            throw e;
+        }
+    };
+    if (max <= 1) {
+        worker();
+    } else {
+        const workers: Promise<void>[] = [];
+        while (workers.length < Math.min(max, items.length)) workers.push(run(worker));
+        wait(Promise.all(workers));
+    }
+    if (failures.length > 0) throw new AggregateError(failures.sort((f1, f2) => f1.index - f2.index), items.length);
+}
+
+// Returns the index of the first item for which fn returns a truthy value, or -1.
+function findIndex(items: [any, any][], fn: (value: any, key: any) => any, it: Iteration) {
+    let found = -1;
+    iterate(items, it, (value, key, i) => {
+        if (!fn(value, key)) return true;
+        // items are started in order: the items before i have been started and will complete before iterate returns.
+        if (found < 0 || i < found) found = i;
+        return false;
+    });
+    return found;
+}
+
 declare const global: any;
 const secret = '_20c7abceb95c4eb88b7ca1895b1170d1';
 const globals = (global[secret] = global[secret] || { context: {} });
+// The contexts entered by withContext, in which context keys may be set. Shared by all the copies of this module, like the context.
+const scopedContexts: WeakSet<object> = globals.scopedContexts || (globals.scopedContexts = new WeakSet());
 
-// Those functions are conditionally assigned bellow.
-let fullStackError: ((e: Error) => Error) | undefined;
-let cleanFiberStack: ((e: Error) => Error) | undefined;
+// Context switches go through these functions, to keep the bound AsyncLocalStorage (if any) in sync.
+function enterContext(cx: any) {
+    globals.context = cx;
+    if (globals.asyncStorage) globals.asyncStorage.enterWith(cx);
+}
+
+// Saves the current context and returns a function which restores it.
+// Switching fibers loses the resources of Node's async execution stack, which AsyncLocalStorage relies on:
+// while a storage is bound, they are restored too.
+function saveContext() {
+    let cx = globals.context;
+    const storage: AsyncLocalStorageLike | undefined = globals.asyncStorage;
+    if (!storage) {
+        return () => {
+            globals.context = cx;
+            cx = null;
+        };
+    }
+    let resources = asyncResourceStack();
+    let store = storage.getStore();
+    return () => {
+        if (resources) resources.forEach((resource, i) => (asyncWrap.execution_async_resources[i] = resource));
+        globals.context = cx;
+        storage.enterWith(store);
+        cx = store = null;
+        resources = undefined;
+    };
+}
+
+// The async_wrap binding, loaded when a storage is bound.
+let asyncWrap: any;
+
+function loadAsyncWrap() {
+    try {
+        return (process as any).binding('async_wrap');
+    } catch (e) {
+        return undefined;
+    }
+}
+
+function asyncResourceStack(): any[] | undefined {
+    if (!asyncWrap || !asyncWrap.execution_async_resources) return undefined;
+    const length = asyncWrap.async_hook_fields[asyncWrap.constants.kStackLength];
+    const resources: any[] = [];
+    // the resources which have been pushed by native code are not in the JS array
+    for (let i = 0; i < length; i++) {
+        resources.push(asyncWrap.execution_async_resources[i] || asyncWrap.executionAsyncResource(i));
+    }
+    return resources;
+}
+
+function adoptStore() {
+    const store = globals.asyncStorage && globals.asyncStorage.getStore();
+    if (store) globals.context = store;
+}
+
+// State of a coroutine, attached to its fiber by run().
+interface Coroutine {
+    token: CancellationToken | undefined;
+    id: number;
+    parentId?: number;
+    started: number;
+    // the operation on which the coroutine is blocked, only set when coroutines are tracked.
+    blocked?: { operation: string; since: number; stack: string };
+    // the stack trace of the run() call, in causal stack trace mode.
+    spawnSite?: Error;
+}
+
+let lastCoroutineId = 0;
+// The tracked coroutines, by id, when tracking is enabled.
+let registry: Map<number, Coroutine> | undefined;
+let reportSignal: string | undefined;
+// The registered instrumentation hooks, undefined if there are none.
+let hooks: Hooks[] | undefined;
+
+function newCoroutine(token: CancellationToken | undefined, parent: Coroutine | undefined): Coroutine {
+    return { token, id: ++lastCoroutineId, parentId: parent && parent.id, started: Date.now() };
+}
+
+function currentCoroutine(): Coroutine | undefined {
+    const fiber = fibers.current;
+    // fibers which have not been created by run() get their state lazily.
+    return fiber && (fiber.fpromise || (fiber.fpromise = newCoroutine(undefined, undefined)));
+}
+
+function currentToken() {
+    const coroutine = currentCoroutine();
+    return coroutine && coroutine.token;
+}
+
+function withToken<T>(coroutine: Coroutine, token: CancellationToken | undefined, fn: () => T): T {
+    const oldToken = coroutine.token;
+    coroutine.token = token;
+    try {
+        return fn();
+    } finally {
+        coroutine.token = oldToken;
+    }
+}
+
+function toCancellationToken(token: CancellationToken | AbortSignalLike) {
+    return token instanceof CancellationToken ? token : new CancellationToken(token);
+}
+
+function cancellationError(token: CancellationToken) {
+    const reason = token.reason;
+    return reason instanceof CancellationError || reason instanceof TimeoutError ? reason : new CancellationError(reason);
+}
 
 let cannotOverrideStackWarned = false;
 function overrideStack(e: Error, getFn: (this: Error) => string) {
@@ -399,66 +2652,114 @@ function overrideStack(e: Error, getFn: (this: Error) => string) {
 
 /// ## Error stack traces
 ///
-/// Three policies:
+/// Four policies:
 /// * `fast`: stack traces are not changed. Call history might be difficult to read; cost less.
 /// * `whole`: stack traces due to async tasks errors in `wait()` are concatenate with the current coroutine stack.
 ///   This allow to have a complete history call (including f-promise traces).
 /// * default: stack traces are like `whole` policy, but clean up to remove f-promise noise.
+/// * `causal`: stack traces are like the default policy. In addition, the error of a coroutine started by `run` gets
+///   an `Error.cause` chain with the stack traces of the `run` calls which started it and its parents.
+///   So failures inside `map` workers show where the work was launched. The cause is not set if the error already has one.
 ///
 /// The policy can be set with `FPROMISE_STACK_TRACES` environment variable.
-/// Any value other than `fast` and `whole` are consider as default policy.
-if (process.env.FPROMISE_STACK_TRACES === 'whole') {
-    fullStackError = function fullStackError(e: Error) {
-        if (!(e instanceof Error)) {
-            return e;
-        }
-        const localError = new Error('__fpromise');
-        const fiberStack = e.stack || '';
-        overrideStack(e, function() {
-            const localStack = localError ? localError.stack || '' : '';
-            return fiberStack + localStack;
-        });
+/// Any value other than `fast`, `whole` and `causal` are consider as default policy.
+///
+/// * `fpromise.configureStackTraces(options)`
+///   changes the stack trace policy at runtime. `options` may contain:
+///   `mode`: `'fast'`, `'whole'`, `'default'` or `'causal'`.
+///   `filter(line)`: returns whether a line of a stack trace is kept by the default and causal policies.
+///   By default, the lines of f-promise are dropped.
+///   `maxDepth`: the maximum number of frames of the coroutine stack which are appended to stack traces.
+/// * `result = fpromise.configureStackTraces(options, fn)`
+///   executes `fn` with a specific policy, which applies to the current coroutine and to the coroutines started by `fn`.
+export type StackTraceMode = 'fast' | 'whole' | 'default' | 'causal';
+
+export interface StackTraceOptions {
+    mode?: StackTraceMode;
+    filter?: (line: string) => boolean;
+    maxDepth?: number;
+}
+
+export function configureStackTraces(options: StackTraceOptions): void;
+export function configureStackTraces<T>(options: StackTraceOptions, fn: () => T): T;
+export function configureStackTraces<T>(options: StackTraceOptions, fn?: () => T) {
+    if (!fn) {
+        stackTraces = { ...stackTraces, ...options };
+        return undefined;
+    }
+    return stackTracesKey.with({ ...currentStackTraces(), ...options }, fn);
+}
+
+const envStackTraces = process.env.FPROMISE_STACK_TRACES;
+let stackTraces: StackTraceOptions = {
+    mode: ['fast', 'whole', 'causal'].indexOf(envStackTraces || '') >= 0 ? (envStackTraces as StackTraceMode) : 'default',
+    filter: line => !/\/f-promise\//.test(line),
+    maxDepth: Infinity,
+};
+
+// The policy of the current coroutine.
+const stackTracesKey = newContextKey<StackTraceOptions>('stackTraces').key;
+
+function currentStackTraces() {
+    return stackTracesKey.get() || stackTraces;
+}
+
+// The frames of a stack trace (without its message line) which pass the filter, limited to `maxDepth` frames.
+function stackFrames(stack: string, config: StackTraceOptions, filter: (line: string) => boolean) {
+    return stack
+        .split('\n')
+        .slice(1)
+        .filter(filter)
+        .slice(0, config.maxDepth != null ? config.maxDepth : Infinity);
+}
+
+function fullStackError(e: Error, config: StackTraceOptions) {
+    if (config.mode === 'fast' || !(e instanceof Error)) {
         return e;
-    };
-} else if (process.env.FPROMISE_STACK_TRACES !== 'fast') {
-    fullStackError = function fullStackError(e: Error) {
-        if (!(e instanceof Error)) {
-            return e;
-        }
-        const localError = new Error('__f-promise');
-        const fiberStack = e.stack || '';
+    }
+    const localError = new Error('__f-promise');
+    const fiberStack = e.stack || '';
+    if (config.mode === 'whole') {
         overrideStack(e, function() {
             const localStack = localError ? localError.stack || '' : '';
-            return (
-                fiberStack +
-                '\n' +
-                localStack
-                    .split('\n')
-                    .slice(1)
-                    .filter(line => {
-                        return !/\/f-promise\//.test(line);
-                    })
-                    .join('\n')
-            );
+            return fiberStack + [localStack.split('\n')[0], ...stackFrames(localStack, config, () => true)].join('\n');
         });
         return e;
-    };
+    }
+    const filter = config.filter || (() => true);
+    overrideStack(e, function() {
+        const localStack = localError ? localError.stack || '' : '';
+        return fiberStack + '\n' + stackFrames(localStack, config, filter).join('\n');
+    });
+    return e;
+}
 
-    cleanFiberStack = function cleanFiberStack(e: Error) {
-        if (!(e instanceof Error)) {
-            return e;
-        }
-        const fiberStack = e.stack || '';
-        overrideStack(e, function() {
-            return fiberStack
-                .split('\n')
-                .filter(line => {
-                    return !/\/f-promise\//.test(line);
-                })
-                .join('\n');
-        });
+function cleanFiberStack(e: Error) {
+    const config = currentStackTraces();
+    if (config.mode === 'fast' || config.mode === 'whole' || !(e instanceof Error)) {
         return e;
-    };
+    }
+    const filter = config.filter || (() => true);
+    const fiberStack = e.stack || '';
+    overrideStack(e, function() {
+        return fiberStack
+            .split('\n')
+            .filter(filter)
+            .join('\n');
+    });
+    return e;
+}
+
+// The stack trace of a run() call, in causal mode. It is chained to the stack trace of the run() call of the parent coroutine.
+function spawnSite(coroutine: Coroutine, parent: Coroutine | undefined) {
+    if (currentStackTraces().mode !== 'causal') return undefined;
+    const site = new Error(`coroutine #${coroutine.id} started`);
+    if (parent && parent.spawnSite) setCause(site, parent.spawnSite);
+    return cleanFiberStack(site);
+}
+
+function setCause(e: Error, cause: Error) {
+    Object.defineProperty(e, 'cause', { value: cause, writable: true, configurable: true, enumerable: false });
 }
 
 // little goodie to improve V8 debugger experience
@@ -493,7 +2794,7 @@ if (process.execArgv.find(str => str.startsWith('--inspect-brk'))) {
     // There was also a memory issue here: debugger allocating a lot
     // of Error objects and stack trace captures vs. a string literal
     // which does not require any dynamic memory allocation.
-    wait = <T>(arg: Promise<T> | Thunk<T>): T => {
+    wait = <T>(arg: Promise<T> | Thunk<T>, options?: WaitOptions): T => {
         if (isDebugEval()) {
             if (!fibers.current.delayed) fibers.current.delayed = [];
             fibers.current.delayed.push(arg);
@@ -501,13 +2802,13 @@ if (process.execArgv.find(str => str.startsWith('--inspect-brk'))) {
             throw 'would yield';
         }
         flushDelayed();
-        return oldWait(arg);
+        return oldWait(arg, options);
     };
     const oldRun = run;
-    run = <T>(fn: () => T): Promise<T> => {
+    run = <T>(fn: () => T, options?: RunOptions): Promise<T> => {
         // tslint:disable-next-line:no-string-throw
         if (isDebugEval()) throw 'would start a fiber';
-        else return oldRun(fn);
+        else return oldRun(fn, options);
     };
     console.log('Running with f-promise debugger hooks');
 }
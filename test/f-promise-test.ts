@@ -1,9 +1,71 @@
 // tslint:disable:no-reference
 import { assert } from 'chai';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as mzfs from 'mz/fs';
 import * as fsp from 'path';
-import { canWait, context, eventHandler, funnel, handshake, map, Queue, run, sleep, wait, withContext } from '..';
+import { PassThrough, Readable, Writable } from 'stream';
+import {
+    addHooks,
+    AggregateError,
+    asyncified,
+    Asyncified,
+    asyncify,
+    Barrier,
+    CancellationError,
+    CancellationToken,
+    canWait,
+    captureContext,
+    Condition,
+    configureStackTraces,
+    context,
+    CountDownLatch,
+    createContextKey,
+    DeadlineExceededError,
+    Deferred,
+    dumpCoroutines,
+    Event,
+    eventHandler,
+    eventQueue,
+    every,
+    fiberize,
+    filter,
+    find,
+    flatMap,
+    forEach,
+    funnel,
+    Handshake,
+    handshake,
+    listCoroutines,
+    map,
+    mapSettled,
+    Mutex,
+    Queue,
+    queueFromReadable,
+    queueToWritable,
+    reduce,
+    remainingTime,
+    restoreContext,
+    retry,
+    RetryOptions,
+    run,
+    RWLock,
+    scope,
+    select,
+    Semaphore,
+    sleep,
+    some,
+    StackTraceOptions,
+    TimeoutError,
+    trackCoroutines,
+    transformStream,
+    useAsyncLocalStorage,
+    wait,
+    waitEvent,
+    withContext,
+    withDeadline,
+    withTimeout,
+} from '..';
 
 const {
     ok,
@@ -170,20 +232,624 @@ describe('queue', () => {
         strictEqual(queue.peek(), undefined);
     });
 
-    test('queue not allow concurrent read', () => {
+    test('queue serves concurrent readers in FIFO order', () => {
         const queue = new Queue<number>(2);
 
-        const consumer1 = run(() => {
-            strictEqual(queue.read(), 4);
-        });
-        const consumer2 = run<Error>(() => {
-            queue.read();
-            return new Error('test failed');
-        }).catch(e => e);
+        const consumer1 = run(() => queue.read());
+        const consumer2 = run(() => queue.read());
+        sleep(1);
         queue.write(4);
+        queue.write(9);
+
+        strictEqual(wait(consumer1), 4);
+        strictEqual(wait(consumer2), 9);
+    });
+
+    test('queue serves concurrent writers in FIFO order', () => {
+        const queue = new Queue<number>(1);
+        queue.write(1);
+        const producers = [2, 3, 4].map(i => run(() => queue.write(i)));
+        sleep(1);
+        deepEqual([queue.read(), queue.read(), queue.read(), queue.read()], [1, 2, 3, 4]);
+        producers.forEach(wait);
+    });
 
-        wait(consumer1);
-        assert.equal(wait(consumer2).message, 'already getting');
+    test('queue distributes work to a pool of consumers', () => {
+        const queue = new Queue<number>(2);
+        const consumed: number[][] = [[], [], []];
+        const consumers = consumed.map(items =>
+            run(() => {
+                for (const item of queue) {
+                    items.push(item);
+                    sleep(2);
+                }
+            }),
+        );
+        for (let i = 0; i < 12; i++) queue.write(i);
+        queue.close();
+        consumers.forEach(wait);
+        deepEqual(([] as number[]).concat(...consumed).sort((a, b) => a - b), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+        consumed.forEach(items => ok(items.length >= 3));
+    });
+
+    test('cancelled read gives back an item delivered to it', () => {
+        const queue = new Queue<number>();
+        const token = new CancellationToken();
+        const cancelled = run(() => queue.read(), { token }).catch(e => e);
+        const other = run(() => queue.read());
+        sleep(1);
+        token.cancel();
+        queue.put(4);
+        ok(wait(cancelled) instanceof CancellationError);
+        strictEqual(wait(other), 4);
+    });
+});
+
+describe('queue close and fail', () => {
+    test('read after close returns the remaining items then END', () => {
+        const queue = new Queue<number | undefined>();
+        queue.write(4);
+        queue.write(undefined);
+        queue.close();
+        ok(queue.closed);
+        strictEqual(queue.read(), 4);
+        strictEqual(queue.read(), undefined);
+        strictEqual(queue.read(), Queue.END);
+        strictEqual(queue.read(), Queue.END);
+    });
+    test('close releases a pending reader', () => {
+        const queue = new Queue<number>();
+        const reader = run(() => queue.read());
+        sleep(1);
+        queue.close();
+        strictEqual(wait(reader), Queue.END);
+    });
+    test('write on a closed queue throws', () => {
+        const queue = new Queue<number>();
+        queue.close();
+        throws(() => queue.write(4), 'cannot write: queue has been closed');
+        throws(() => queue.put(4), 'cannot write: queue has been closed');
+    });
+    test('close releases pending writers', () => {
+        const queue = new Queue<number>(1);
+        queue.write(4);
+        const writer = run(() => queue.write(9)).catch(e => e.message);
+        sleep(1);
+        queue.close();
+        equal(wait(writer), 'cannot write: queue has been closed');
+        strictEqual(queue.read(), 4);
+        strictEqual(queue.read(), Queue.END);
+    });
+    test('fail releases readers and writers with the error', () => {
+        const queue = new Queue<number>(1);
+        const reader = run(() => queue.read()).catch(e => e.message);
+        sleep(1);
+        queue.fail(new Error('broken'));
+        equal(wait(reader), 'broken');
+        throws(() => queue.read(), 'broken');
+        throws(() => queue.write(4), 'broken');
+        ok(queue.closed);
+    });
+    test('fail releases pending writers', () => {
+        const queue = new Queue<number>(0);
+        const writer = run(() => queue.write(9)).catch(e => e.message);
+        sleep(1);
+        queue.fail(new Error('broken'));
+        equal(wait(writer), 'broken');
+    });
+});
+
+describe('queue iteration', () => {
+    test('iterates inside a coroutine until the queue is closed', () => {
+        const queue = new Queue<number>(1);
+        run(() => {
+            [1, 2, 3].forEach(i => queue.write(i));
+            queue.close();
+        });
+        const items: number[] = [];
+        for (const item of queue) items.push(item);
+        deepEqual(items, [1, 2, 3]);
+    });
+    it('iterates asynchronously outside coroutines', done => {
+        const queue = new Queue<number>();
+        run(() => {
+            queue.write(1);
+            sleep(1);
+            queue.write(2);
+            queue.close();
+        });
+        (async () => {
+            const items: number[] = [];
+            for await (const item of queue as AsyncIterable<number>) items.push(item);
+            deepEqual(items, [1, 2]);
+        })().then(done, done);
+    });
+    it('async iteration rejects when the queue fails', done => {
+        const queue = new Queue<number>();
+        queue.fail(new Error('broken'));
+        queue[Symbol.asyncIterator]()
+            .next()
+            .then(() => fail('should have failed'), err => equal(err.message, 'broken'))
+            .then(done, done);
+    });
+    test('from an iterable', () => {
+        const queue = Queue.from([1, 2, 3]);
+        deepEqual(Array.from(queue), [1, 2, 3]);
+    });
+    test('from a generator, with backpressure', () => {
+        const produced: number[] = [];
+        function* generate() {
+            for (let i = 0; i < 5; i++) {
+                produced.push(i);
+                yield i;
+            }
+        }
+        const queue = Queue.from(generate(), 1);
+        sleep(1);
+        ok(produced.length <= 2);
+        deepEqual(Array.from(queue), [0, 1, 2, 3, 4]);
+    });
+    test('from an async generator', () => {
+        async function* generate() {
+            yield 'a';
+            await new Promise<void>(resolve => setTimeout(resolve, 1));
+            yield 'b';
+        }
+        deepEqual(Array.from(Queue.from(generate())), ['a', 'b']);
+    });
+    test('from a failing iterable', () => {
+        function* generate() {
+            yield 1;
+            throw new Error('generator failed');
+        }
+        const queue = Queue.from(generate());
+        strictEqual(queue.read(), 1);
+        throws(() => queue.read(), 'generator failed');
+    });
+});
+
+describe('synchronization primitives', () => {
+    test('mutex serializes coroutines in FIFO order', () => {
+        const mutex = new Mutex();
+        const trace: string[] = [];
+        wait(
+            Promise.all(
+                [1, 2, 3].map(i =>
+                    run(() =>
+                        mutex.withLock(() => {
+                            trace.push(`enter ${i}`);
+                            sleep(2);
+                            trace.push(`leave ${i}`);
+                        }),
+                    ),
+                ),
+            ),
+        );
+        deepEqual(trace, ['enter 1', 'leave 1', 'enter 2', 'leave 2', 'enter 3', 'leave 3']);
+        ok(!mutex.locked);
+    });
+    test('mutex is reentrant', () => {
+        const mutex = new Mutex();
+        mutex.acquire();
+        mutex.acquire();
+        ok(mutex.tryAcquire());
+        const other = run(() => mutex.tryAcquire());
+        equal(wait(other), false);
+        mutex.release();
+        mutex.release();
+        ok(mutex.locked);
+        mutex.release();
+        ok(!mutex.locked);
+    });
+    test('mutex release by another coroutine throws', () => {
+        const mutex = new Mutex();
+        mutex.acquire();
+        throws(() => wait(run(() => mutex.release())), 'cannot release: mutex is held by another coroutine');
+        mutex.release();
+        throws(() => mutex.release(), 'cannot release: mutex is not locked');
+    });
+    test('mutex acquire times out and hands over to the next waiter', () => {
+        const mutex = new Mutex();
+        mutex.acquire();
+        const late = run(() => mutex.acquire({ timeout: 5 }));
+        const patient = run(() => mutex.withLock(() => 'acquired'));
+        throws(() => wait(late), 'did not complete within 5ms');
+        mutex.release();
+        equal(wait(patient), 'acquired');
+        ok(!mutex.locked);
+    });
+    test('rwlock allows concurrent readers', () => {
+        const lock = new RWLock();
+        let maxReaders = 0;
+        wait(
+            Promise.all(
+                [1, 2, 3].map(() =>
+                    run(() =>
+                        lock.withReadLock(() => {
+                            maxReaders = Math.max(maxReaders, lock.readers);
+                            sleep(2);
+                        }),
+                    ),
+                ),
+            ),
+        );
+        equal(maxReaders, 3);
+        equal(lock.readers, 0);
+    });
+    test('rwlock gives precedence to writers', () => {
+        const lock = new RWLock();
+        const trace: string[] = [];
+        lock.acquireRead();
+        const writer = run(() => lock.withWriteLock(() => trace.push('writer')));
+        sleep(1);
+        ok(!lock.tryAcquireRead(), 'reader must wait behind writer');
+        const reader = run(() => lock.withReadLock(() => trace.push('reader')));
+        sleep(1);
+        deepEqual(trace, []);
+        lock.releaseRead();
+        wait(Promise.all([writer, reader]));
+        deepEqual(trace, ['writer', 'reader']);
+        ok(lock.tryAcquireWrite());
+        ok(!lock.tryAcquireWrite());
+        lock.releaseWrite();
+    });
+    test('rwlock admits readers when a waiting writer times out', () => {
+        const lock = new RWLock();
+        lock.acquireRead();
+        const writer = run(() => lock.acquireWrite({ timeout: 5 }));
+        sleep(1);
+        const reader = run(() => lock.withReadLock(() => 'read'));
+        throws(() => wait(writer), 'did not complete within 5ms');
+        equal(wait(reader), 'read');
+        lock.releaseRead();
+    });
+    test('semaphore acquires and releases several permits', () => {
+        const sem = new Semaphore(3);
+        ok(sem.tryAcquire(2));
+        ok(!sem.tryAcquire(2));
+        equal(sem.available, 1);
+        const big = run(() => sem.withPermits(3, () => sem.available));
+        sleep(1);
+        sem.release(2);
+        equal(wait(big), 0);
+        equal(sem.available, 3);
+    });
+    test('semaphore is fair under contention', () => {
+        const sem = new Semaphore(1);
+        const order: string[] = [];
+        sem.acquire();
+        const big = run(() => sem.withPermits(2, () => order.push('big')));
+        sleep(1);
+        const small = run(() => sem.withPermits(1, () => order.push('small')));
+        sleep(1);
+        ok(!sem.tryAcquire(), 'no barging');
+        sem.release();
+        sleep(1);
+        deepEqual(order, [], 'small request must wait behind big request');
+        sem.release();
+        wait(Promise.all([big, small]));
+        deepEqual(order, ['big', 'small']);
+    });
+    test('semaphore serves later requests when the first one times out', () => {
+        const sem = new Semaphore(1);
+        const big = run(() => sem.acquire(2, { timeout: 5 }));
+        sleep(1);
+        const small = run(() => sem.withPermits(1, () => 'small'));
+        throws(() => wait(big), 'did not complete within 5ms');
+        equal(wait(small), 'small');
+    });
+    test('count down latch', () => {
+        const latch = new CountDownLatch(3);
+        const waiters = [1, 2].map(i => run(() => (latch.wait(), i)));
+        latch.countDown();
+        latch.countDown();
+        sleep(1);
+        ok(!latch.tryWait());
+        equal(latch.count, 1);
+        latch.countDown();
+        deepEqual(wait(Promise.all(waiters)), [1, 2]);
+        ok(latch.tryWait());
+        latch.wait();
+        throws(() => new CountDownLatch(1).wait({ timeout: 1 }), 'did not complete within 1ms');
+    });
+    test('cyclic barrier', () => {
+        const barrier = new Barrier(3);
+        const trace: string[] = [];
+        const party = (i: number) =>
+            run(() => {
+                for (let round = 1; round <= 2; round++) {
+                    sleep(i);
+                    trace.push(`${round}`);
+                    barrier.wait();
+                }
+            });
+        wait(Promise.all([party(1), party(3), party(5)]));
+        deepEqual(trace, ['1', '1', '1', '2', '2', '2']);
+        equal(barrier.waiting, 0);
+        throws(() => barrier.wait({ timeout: 1 }), 'did not complete within 1ms');
+        equal(barrier.waiting, 0);
+        notOk(barrier.tryWait(), 'parties missing');
+        equal(barrier.waiting, 0);
+        const parties = [run(() => barrier.wait()), run(() => barrier.wait())];
+        ok(barrier.tryWait(), 'completes the party');
+        wait(Promise.all(parties));
+    });
+});
+
+describe('streams', () => {
+    test('queueFromReadable reads chunks until the stream ends', () => {
+        const chunks = ['a', 'b', 'c'];
+        const stream = new Readable({
+            objectMode: true,
+            read() {
+                setTimeout(() => this.push(chunks.length > 0 ? chunks.shift() : null), 1);
+            },
+        });
+        const queue = queueFromReadable<string>(stream);
+        deepEqual(Array.from(queue), ['a', 'b', 'c']);
+    });
+    test('queueFromReadable pauses the stream when the queue is full', () => {
+        const stream = new PassThrough({ objectMode: true });
+        const queue = queueFromReadable<number>(stream, 1);
+        [1, 2, 3, 4].forEach(i => stream.write(i));
+        stream.end();
+        sleep(1);
+        ok(stream.isPaused());
+        deepEqual(Array.from(queue), [1, 2, 3, 4]);
+    });
+    test('queueFromReadable propagates stream errors to read', () => {
+        const stream = new PassThrough({ objectMode: true });
+        const queue = queueFromReadable<number>(stream);
+        stream.write(1);
+        setTimeout(() => stream.emit('error', new Error('stream failed')), 1);
+        strictEqual(queue.read(), 1);
+        throws(() => queue.read(), 'stream failed');
+    });
+    test('queueFromReadable ignores the errors emitted after the end', () => {
+        const stream = new PassThrough({ objectMode: true });
+        const queue = queueFromReadable<number>(stream);
+        stream.end(1);
+        deepEqual(Array.from(queue), [1]);
+        stream.emit('error', new Error('late failure'));
+        ok(queue.closed);
+    });
+    test('queueToWritable writes items and ends the stream', () => {
+        const written: number[] = [];
+        let finished = false;
+        const stream = new Writable({
+            objectMode: true,
+            highWaterMark: 1,
+            write: (chunk: number, encoding: string, callback: () => void) => {
+                written.push(chunk);
+                setTimeout(callback, 1);
+            },
+        });
+        stream.on('finish', () => (finished = true));
+        queueToWritable(Queue.from([1, 2, 3]), stream);
+        deepEqual(written, [1, 2, 3]);
+        ok(finished);
+    });
+    test('queueToWritable fails the queue on stream errors', () => {
+        const queue = new Queue<number>();
+        const stream = new Writable({
+            objectMode: true,
+            write: (chunk: number, encoding: string, callback: (err?: any) => void) => callback(new Error('write failed')),
+        });
+        queue.put(1);
+        throws(() => queueToWritable(queue, stream), 'write failed');
+        throws(() => queue.read(), 'write failed');
+    });
+    test('queueToWritable destroys the stream when the queue fails', () => {
+        const queue = new Queue<number>();
+        const stream = new PassThrough({ objectMode: true });
+        queue.fail(new Error('producer failed'));
+        throws(() => queueToWritable(queue, stream), 'producer failed');
+        ok((stream as any).destroyed);
+    });
+    test('transformStream pipes through a fiber function', () => {
+        const stream = transformStream<number, number>(
+            (input, output) => {
+                for (const item of input) output.write(item * 10);
+            },
+            { max: 1 },
+        );
+        const results = queueFromReadable<number>(stream);
+        queueToWritable(Queue.from([1, 2, 3]), stream);
+        deepEqual(Array.from(results), [10, 20, 30]);
+    });
+    test('transformStream destroys the stream if the function throws', () => {
+        const stream = transformStream<number, number>(input => {
+            input.read();
+            throw new Error('transform failed');
+        });
+        const results = queueFromReadable<number>(stream);
+        stream.write(1);
+        throws(() => results.read(), 'transform failed');
+    });
+    it('transformStream reports the error of a function which closed its output', done => {
+        const stream = transformStream<number, number>((input, output) => {
+            output.close();
+            throw new Error('transform failed');
+        });
+        stream.on('error', err => {
+            equal(err.message, 'transform failed');
+            done();
+        });
+    });
+});
+
+describe('events', () => {
+    function listeners(emitter: EventEmitter) {
+        return emitter.eventNames().reduce((count, name) => count + emitter.listenerCount(name), 0);
+    }
+    function emitLater(emitter: EventEmitter, name: string, ...args: any[]) {
+        setTimeout(() => emitter.emit(name, ...args), 1);
+    }
+    test('waitEvent returns the first argument of the event', () => {
+        const emitter = new EventEmitter();
+        emitLater(emitter, 'ready', 'a', 'b');
+        equal(waitEvent(emitter, 'ready'), 'a');
+        equal(listeners(emitter), 0);
+    });
+    test('waitEvent throws on rejectOn events', () => {
+        const emitter = new EventEmitter();
+        emitLater(emitter, 'error', new Error('failed'));
+        throws(() => waitEvent(emitter, 'ready'), 'failed');
+        emitLater(emitter, 'abort', new Error('aborted'));
+        throws(() => waitEvent(emitter, 'ready', { rejectOn: ['abort'] }), 'aborted');
+        equal(listeners(emitter), 0);
+    });
+    test('waitEvent times out', () => {
+        const emitter = new EventEmitter();
+        throws(() => waitEvent(emitter, 'ready', { timeout: 5 }), TimeoutError);
+        equal(listeners(emitter), 0);
+    });
+    test('waitEvent is cancelled with its coroutine', () => {
+        const emitter = new EventEmitter();
+        const token = new CancellationToken();
+        const promise = run(() => waitEvent(emitter, 'ready'), { token });
+        token.cancel('stop');
+        throws(() => wait(promise), CancellationError);
+        equal(listeners(emitter), 0);
+    });
+    test('eventQueue buffers the events until closeOn', () => {
+        const emitter = new EventEmitter();
+        const q = eventQueue<number>(emitter, 'data', { closeOn: ['end'] });
+        emitter.emit('data', 1);
+        emitter.emit('data', 2);
+        emitLater(emitter, 'data', 3);
+        setTimeout(() => emitter.emit('end'), 5);
+        deepEqual(Array.from(q), [1, 2, 3]);
+        equal(listeners(emitter), 0);
+    });
+    test('eventQueue fails on rejectOn events and on overflow', () => {
+        const emitter = new EventEmitter();
+        const q = eventQueue(emitter, 'data');
+        emitter.emit('data', 1);
+        emitter.emit('error', new Error('failed'));
+        throws(() => q.read(), 'failed');
+        equal(listeners(emitter), 0);
+        const bounded = eventQueue(emitter, 'data', { max: 1 });
+        emitter.emit('data', 1);
+        emitter.emit('data', 2);
+        throws(() => bounded.read(), 'event queue overflow: data');
+        equal(listeners(emitter), 0);
+    });
+    test('eventQueue is detached when the consumer closes it', () => {
+        const emitter = new EventEmitter();
+        const q = eventQueue(emitter, 'data', { closeOn: ['end'] });
+        equal(listeners(emitter), 3);
+        q.close();
+        equal(listeners(emitter), 0);
+    });
+    test('eventQueue fails when the coroutine is cancelled', () => {
+        const emitter = new EventEmitter();
+        const token = new CancellationToken();
+        const promise = run(
+            () => {
+                const q = eventQueue(emitter, 'data');
+                q.read();
+            },
+            { token },
+        );
+        token.cancel('stop');
+        throws(() => wait(promise), CancellationError);
+        equal(listeners(emitter), 0);
+    });
+});
+
+describe('select', () => {
+    test('selects the first ready case', () => {
+        const q1 = new Queue<number>();
+        const q2 = new Queue<number>();
+        q2.put(2);
+        deepEqual(select([{ read: q1 }, { read: q2 }]), { index: 1, value: 2 });
+        q1.put(1);
+        q2.put(3);
+        deepEqual(select([{ read: q1 }, { read: q2 }]), { index: 0, value: 1 });
+        strictEqual(q2.read(), 3);
+    });
+    test('waits for a queue item without losing items from the other queues', () => {
+        const q1 = new Queue<number>();
+        const q2 = new Queue<number>();
+        run(() => {
+            sleep(5);
+            q2.put(2);
+            q1.put(1);
+        });
+        deepEqual(select([{ read: q1 }, { read: q2 }]), { index: 1, value: 2 });
+        strictEqual(q1.read(), 1);
+        equal(q1.length, 0);
+        equal(q2.length, 0);
+    });
+    test('times out with a sleep case', () => {
+        const queue = new Queue<number>();
+        const begin = Date.now();
+        deepEqual(select([{ read: queue }, { sleep: 10 }]), { index: 1, value: undefined });
+        closeTo(Date.now() - begin, 10, 8);
+        queue.put(4);
+        strictEqual(queue.read(), 4);
+    });
+    test('writes to a queue which has room', () => {
+        const full = new Queue<number>(1);
+        full.put(0);
+        const empty = new Queue<number>(1);
+        equal(select([{ write: full, value: 1 }, { write: empty, value: 2 }]).index, 1);
+        deepEqual(full.contents(), [0]);
+        deepEqual(empty.contents(), [2]);
+    });
+    test('blocked write is withdrawn when another case fires', () => {
+        const full = new Queue<number>(1);
+        full.put(0);
+        equal(select([{ write: full, value: 1 }, { sleep: 5 }]).index, 1);
+        strictEqual(full.read(), 0);
+        equal(full.length, 0);
+    });
+    test('blocked write completes when a reader frees a slot', () => {
+        const full = new Queue<number>(1);
+        full.put(0);
+        run(() => {
+            sleep(5);
+            full.read();
+        });
+        equal(select([{ write: full, value: 1 }, { sleep: 100 }]).index, 0);
+        strictEqual(full.read(), 1);
+    });
+    test('handshake case', () => {
+        const hs = handshake();
+        run(() => {
+            sleep(5);
+            hs.notify();
+        });
+        equal(select([{ handshake: hs }, { sleep: 100 }]).index, 0);
+        hs.notify();
+        equal(select([{ sleep: 100 }, { handshake: hs }]).index, 1);
+        // the handshake was not consumed by the select which timed out
+        equal(select([{ handshake: hs }, { sleep: 1 }]).index, 1);
+        hs.notify();
+        hs.wait();
+    });
+    test('promise case', () => {
+        deepEqual(select([{ promise: Promise.resolve(5) }, { sleep: 10 }]), { index: 0, value: 5 });
+        throws(() => select([{ promise: Promise.reject(new Error('rejected')) }]), 'rejected');
+    });
+    test('read of a closed queue', () => {
+        const queue = new Queue<number>();
+        run(() => {
+            sleep(1);
+            queue.close();
+        });
+        deepEqual(select([{ read: queue }, { sleep: 100 }]), { index: 0, value: Queue.END });
+    });
+    test('cancelled select does not lose items', () => {
+        const queue = new Queue<number>();
+        const token = new CancellationToken();
+        const selecting = run(() => select([{ read: queue }]), { token }).catch(e => e);
+        sleep(1);
+        token.cancel();
+        queue.put(4);
+        ok(wait(selecting) instanceof CancellationError);
+        strictEqual(queue.read(), 4);
     });
 });
 
@@ -229,6 +895,75 @@ describe('handshake', () => {
         hk.notify(); // release not thrown run
         equal(thrown, true);
     });
+    test('wait returns the notified value', () => {
+        const hk = handshake<string>();
+        run(() => {
+            sleep(1);
+            hk.notify('hello');
+        });
+        equal(hk.wait(), 'hello');
+        hk.notify('early');
+        equal(hk.wait(), 'early');
+    });
+    test('can be implemented by other objects', () => {
+        const hs: Handshake<number> = { wait: () => 1, notify: () => {} };
+        equal(hs.wait(), 1);
+        throws(() => select([{ handshake: hs }]), 'cannot select: handshake was not created by handshake()');
+    });
+});
+
+describe('condition and deferred', () => {
+    test('notify wakes up waiters one by one, in FIFO order', () => {
+        const cond = new Condition<number>();
+        const results: string[] = [];
+        const waiters = ['a', 'b'].map(name => run(() => results.push(`${name}${cond.wait()}`)));
+        sleep(1);
+        equal(cond.waiting, 2);
+        ok(cond.notify(1));
+        sleep(1);
+        deepEqual(results, ['a1']);
+        ok(cond.notify(2));
+        wait(Promise.all(waiters));
+        deepEqual(results, ['a1', 'b2']);
+        ok(!cond.notify(3), 'no waiter');
+    });
+    test('notifyAll wakes up all waiters with the same value', () => {
+        const cond = new Event<string>();
+        const waiters = [1, 2, 3].map(() => run(() => cond.wait()));
+        sleep(1);
+        equal(cond.notifyAll('go'), 3);
+        deepEqual(wait(Promise.all(waiters)), ['go', 'go', 'go']);
+        equal(cond.waiting, 0);
+    });
+    test('condition wait times out', () => {
+        const cond = new Condition();
+        throws(() => cond.wait({ timeout: 1 }), 'did not complete within 1ms');
+        equal(cond.waiting, 0);
+    });
+    test('deferred resolved from callback code', () => {
+        const deferred = new Deferred<number>();
+        const waiters = [1, 2].map(() => run(() => deferred.wait()));
+        setTimeout(() => deferred.callback(null, 42), 1);
+        deepEqual(wait(Promise.all(waiters)), [42, 42]);
+        ok(deferred.settled);
+        equal(deferred.wait(), 42);
+        ok(!deferred.resolve(43));
+        ok(!deferred.reject(new Error('too late')));
+        equal(deferred.wait(), 42);
+    });
+    test('deferred rejected', () => {
+        const deferred = new Deferred<number>();
+        const waiter = run(() => deferred.wait());
+        setTimeout(() => deferred.reject(new Error('rejected')), 1);
+        throws(() => wait(waiter), 'rejected');
+        throws(() => deferred.wait(), 'rejected');
+    });
+    test('deferred wait times out', () => {
+        const deferred = new Deferred<number>();
+        throws(() => deferred.wait({ timeout: 1 }), 'did not complete within 1ms');
+        deferred.resolve(1);
+        equal(deferred.wait(), 1);
+    });
 });
 
 describe('funnel', () => {
@@ -277,6 +1012,121 @@ describe('funnel', () => {
         equal(sum(results), 2);
         closeTo(Date.now() - begin, 20, 8);
     });
+    test('queued operations enter by priority', () => {
+        const fun = funnel(1);
+        const order: string[] = [];
+        const enter = (name: string, priority?: number) =>
+            run(() =>
+                fun(
+                    () => {
+                        order.push(name);
+                        sleep(5);
+                    },
+                    { priority },
+                ),
+            );
+        const promises = [enter('first'), enter('low1', -1), enter('normal'), enter('high', 2), enter('low2', -1)];
+        promises.forEach(wait);
+        deepEqual(order, ['first', 'high', 'normal', 'low1', 'low2']);
+    });
+    test('queue timeout', () => {
+        const fun = funnel(1);
+        const busy = run(() => fun(() => sleep(30)));
+        sleep(1);
+        let err: any;
+        try {
+            fun(() => fail('should not enter'), { timeout: 10 });
+        } catch (e) {
+            err = e;
+        }
+        ok(err instanceof TimeoutError);
+        equal(fun.stats().queued, 0);
+        ok(fun.stats().maxQueueWait >= 9, 'timed out wait recorded');
+        wait(busy);
+        equal(fun(() => 'free'), 'free');
+    });
+    test('bounded queue', () => {
+        const fun = funnel(1, { maxQueueLength: 1 });
+        const busy = run(() => fun(() => sleep(10)));
+        const queued = run(() => fun(() => 'queued'));
+        sleep(1);
+        throws(() => fun(() => 'rejected'), 'cannot execute: funnel queue is full');
+        wait(busy);
+        equal(wait(queued), 'queued');
+    });
+    test('stats', () => {
+        const fun = funnel(2);
+        deepEqual(fun.stats(), { active: 0, queued: 0, maxQueueWait: 0, completed: 0 });
+        const promises = [10, 10, 10].map(ms => run(() => fun(() => sleep(ms))));
+        sleep(1);
+        const stats = fun.stats();
+        equal(stats.active, 2);
+        equal(stats.queued, 1);
+        promises.forEach(wait);
+        const final = fun.stats();
+        equal(final.active, 0);
+        equal(final.queued, 0);
+        equal(final.completed, 3);
+        closeTo(final.maxQueueWait, 10, 6);
+    });
+    test('cancelled queued operation gives up its place', () => {
+        const fun = funnel(1);
+        const token = new CancellationToken();
+        const busy = run(() => fun(() => sleep(10)));
+        const cancelled = run(() => fun(() => fail('should not enter')), { token }).catch(e => e);
+        const next = run(() => fun(() => 'next'));
+        sleep(1);
+        token.cancel();
+        ok(wait(cancelled) instanceof CancellationError);
+        wait(busy);
+        equal(wait(next), 'next');
+        equal(fun.stats().active, 0);
+    });
+    test('drain lets queued operations complete', () => {
+        const fun = funnel(1);
+        const begin = Date.now();
+        const promises = [10, 10, 10].map(ms => run(() => fun(() => (sleep(ms), ms))));
+        sleep(1);
+        fun.drain();
+        closeTo(Date.now() - begin, 30, 10);
+        deepEqual(promises.map(wait), [10, 10, 10]);
+        throws(() => fun(() => 'new'), 'cannot execute: funnel has been closed');
+    });
+    test('graceful close waits for active operations', () => {
+        const fun = funnel(2);
+        let done = 0;
+        const promises = [5, 10].map(ms => run(() => fun(() => (sleep(ms), done++))));
+        sleep(1);
+        fun.close({ graceful: true });
+        equal(done, 2);
+        equal(fun.stats().active, 0);
+        promises.forEach(wait);
+    });
+    test('drain can reject queued operations', () => {
+        const fun = funnel(1);
+        const active = run(() => fun(() => (sleep(10), 'active')));
+        const queued = run(() => fun(() => 'queued')).catch(e => e.message);
+        sleep(1);
+        fun.drain({ rejectQueued: true });
+        equal(wait(active), 'active');
+        equal(wait(queued), 'cannot execute: funnel has been closed');
+    });
+    test('drain returns immediately on an idle funnel', () => {
+        const fun = funnel(1);
+        fun.drain();
+        throws(() => fun(() => 'new'), 'cannot execute: funnel has been closed');
+    });
+    it('drain throws without closing the funnel outside a coroutine', () => {
+        const fun = funnel(1);
+        const active = run(() => fun(() => (sleep(5), 'active')));
+        throws(() => fun.close({ graceful: true }), 'cannot drain funnel: no fiber');
+        return active.then(() => equal(fun(() => 'next'), 'next'));
+    });
+    test('drain throws when called from an operation of the funnel', () => {
+        const fun = funnel(2);
+        throws(() => fun(() => fun.drain()), 'cannot drain funnel: called from an operation of the funnel');
+        equal(fun(() => 'next'), 'next');
+    });
 });
 
 describe('contexts', () => {
@@ -316,6 +1166,118 @@ describe('contexts', () => {
     });
 });
 
+// AsyncLocalStorage is not available before node 12.17
+const { AsyncLocalStorage } = require('async_hooks');
+
+(AsyncLocalStorage ? describe : describe.skip)('AsyncLocalStorage bridge', () => {
+    const storage = AsyncLocalStorage && new AsyncLocalStorage();
+    beforeEach(() => useAsyncLocalStorage(storage));
+    afterEach(() => {
+        useAsyncLocalStorage(undefined);
+        storage.disable();
+    });
+    test('promise-based code sees the context of the coroutine', () => {
+        const cx = { user: 'alice' };
+        withContext(() => {
+            const seen = wait(
+                (async () => {
+                    await new Promise<void>(resolve => setTimeout(resolve, 1));
+                    return storage.getStore();
+                })(),
+            );
+            equal(seen, cx);
+            sleep(1);
+            equal(storage.getStore(), cx, 'preserved across wait');
+        }, cx);
+    });
+    it('run picks up the store of AsyncLocalStorage', done => {
+        const store = { user: 'bob' };
+        storage.run(store, () => {
+            setTimeout(() => {
+                run(() => {
+                    equal(context(), store);
+                    sleep(1);
+                    equal(context(), store);
+                }).then(done, done);
+            }, 1);
+        });
+    });
+    it('eventHandler inherits the store of AsyncLocalStorage', done => {
+        const store = { user: 'carol' };
+        storage.run(store, () => {
+            eventHandler(() => {
+                equal(context().user, 'carol');
+                notEqual(context(), store);
+                done();
+            })();
+        });
+    });
+});
+
+describe('context keys', () => {
+    const user = createContextKey<string>('user', 'anonymous');
+    const requestId = createContextKey<number>('requestId');
+    test('get returns the default value', () => {
+        equal(user.get(), 'anonymous');
+        isUndefined(requestId.get());
+        equal(user.name, 'user');
+    });
+    test('with scopes the value', () => {
+        user.with('alice', () => {
+            equal(user.get(), 'alice');
+            user.with('bob', () => equal(user.get(), 'bob'));
+            equal(user.get(), 'alice');
+            wait(run(() => equal(user.get(), 'alice', 'inherited by child coroutine')));
+            sleep(1);
+            equal(user.get(), 'alice', 'preserved across wait');
+        });
+        equal(user.get(), 'anonymous');
+    });
+    test('set changes the value in the current context', () => {
+        withContext(() => {
+            user.set('carol');
+            equal(user.get(), 'carol');
+        }, null);
+        equal(user.get(), 'anonymous');
+    });
+    it('set is not allowed in the shared root context', () => {
+        throws(() => user.set('alice'), 'user.set(value) not allowed outside run()');
+        const coroutine = (name: string) => () => {
+            throws(() => user.set(name), 'user.set(value) not allowed outside withContext()');
+            return withContext(() => {
+                user.set(name);
+                sleep(5);
+                return user.get();
+            }, null);
+        };
+        return Promise.all([run(coroutine('alice')), run(coroutine('bob'))]).then(names => {
+            deepEqual(names, ['alice', 'bob']);
+            equal(user.get(), 'anonymous');
+        });
+    });
+    test('keys with the same name are isolated', () => {
+        const other = createContextKey<string>('user', 'other');
+        user.with('alice', () => {
+            equal(other.get(), 'other');
+            withContext(() => equal(context().user, undefined), null);
+        });
+    });
+    test('capture and restore a snapshot', () => {
+        const snapshot = user.with('alice', () => requestId.with(42, captureContext));
+        deepEqual(Array.from(snapshot.values()), ['alice', 42]);
+        deepEqual(Array.from(snapshot.keys()).map(key => key.name), ['user', 'requestId']);
+        requestId.with(7, () => {
+            equal(user.get(), 'anonymous');
+            restoreContext(snapshot, () => {
+                equal(user.get(), 'alice');
+                equal(requestId.get(), 42);
+            });
+            restoreContext(new Map(), () => isUndefined(requestId.get()));
+            equal(requestId.get(), 7);
+        });
+    });
+});
+
 describe('collection functions', () => {
     it('map', done => {
         run(() => {
@@ -338,6 +1300,990 @@ describe('collection functions', () => {
                 done();
             });
     });
+
+    // tracks the maximum number of concurrent calls
+    function tracker() {
+        let active = 0;
+        const t = {
+            max: 0,
+            track<T>(fn: () => T) {
+                active++;
+                t.max = Math.max(t.max, active);
+                try {
+                    return fn();
+                } finally {
+                    active--;
+                }
+            },
+        };
+        return t;
+    }
+
+    test('map with concurrency', () => {
+        const t = tracker();
+        deepEqual(map([1, 2, 3, 4, 5], (x: number) => t.track(() => delay(2 * x, 6 - x)), { concurrency: 2 }), [2, 4, 6, 8, 10]);
+        equal(t.max, 2);
+    });
+
+    test('map on iterables and maps', () => {
+        deepEqual(map(new Set([1, 2]), (x: number, i: number) => delay(x + i)), [1, 3]);
+        deepEqual(map(new Map([['a', 1], ['b', 2]]), (x: number, k: string) => k + delay(x)), ['a1', 'b2']);
+    });
+
+    test('forEach serial and parallel', () => {
+        const t = tracker();
+        const seen: number[] = [];
+        forEach([3, 1, 2], (x: number) => t.track(() => seen.push(delay(x, x))));
+        deepEqual(seen, [3, 1, 2]);
+        equal(t.max, 1);
+        seen.length = 0;
+        forEach([3, 1, 2], (x: number) => t.track(() => seen.push(delay(x, 5 * x))), -1);
+        deepEqual(seen, [1, 2, 3]);
+        equal(t.max, 3);
+    });
+
+    test('forEach with default concurrency', () => {
+        const t = tracker();
+        forEach([1, 2, 3, 4, 5, 6], () => t.track(() => delay(0, 2)), 0);
+        equal(t.max, (funnel as any).defaultSize);
+    });
+
+    test('filter preserves order', () => {
+        deepEqual(filter([5, 2, 8, 1], (x: number) => delay(x, 10 - x) > 2, 4), [5, 8]);
+        const filtered = filter(new Map([['a', 1], ['b', 2], ['c', 3]]), (x: number) => delay(x) !== 2, { concurrency: 2 });
+        ok(filtered instanceof Map);
+        deepEqual(Array.from(filtered), [['a', 1], ['c', 3]]);
+    });
+
+    test('reduce', () => {
+        equal(reduce([1, 2, 3], (sum: number, x: number) => sum + delay(x), 10), 16);
+        equal(reduce(new Map([['a', 1], ['b', 2]]), (s: string, x: number, k: string) => s + k + delay(x), ''), 'a1b2');
+    });
+
+    test('some and every stop early', () => {
+        const seen: number[] = [];
+        ok(some([1, 5, 2, 7], (x: number) => seen.push(x) && delay(x) > 4));
+        deepEqual(seen, [1, 5]);
+        notOk(some([1, 2], (x: number) => delay(x) > 4, -1));
+        ok(every([1, 2, 3], (x: number) => delay(x) > 0, 2));
+        seen.length = 0;
+        notOk(every([1, 0, 3, 4], (x: number) => seen.push(x) && delay(x) > 0));
+        deepEqual(seen, [1, 0]);
+    });
+
+    test('find returns the first match in collection order', () => {
+        equal(find([1, 6, 8, 3], (x: number) => delay(x, 10 - x) > 4, -1), 6);
+        equal(find(new Set([1, 6, 8, 3]), (x: number) => delay(x) > 4), 6);
+        isUndefined(find([1, 2], (x: number) => delay(x) > 4, 2));
+    });
+
+    test('flatMap', () => {
+        deepEqual(flatMap([1, 2, 3], (x: number) => (x === 2 ? delay(x) : [x, delay(x * 10)]), 2), [1, 10, 2, 3, 30]);
+    });
+
+    test('collection functions propagate errors', () => {
+        throws(() => forEach([1, 2, 3], (x: number) => x === 2 && delayFail(x)), 'reason: 2');
+        throws(() => filter([1, 2, 3], delayFail, 2), 'reason: 1');
+    });
+
+    test('mapSettled', () => {
+        deepEqual(mapSettled([1, 2, 3], (x: number) => (x === 2 ? delayFail<number>(x) : delay(x))).map(r => r.status), [
+            'fulfilled',
+            'rejected',
+            'fulfilled',
+        ]);
+        const results = mapSettled(new Map([['a', 1], ['b', 2]]), (x: number, k: string) => (k === 'a' ? delayFail<string>(x) : k + delay(x)), 1);
+        const [first, second] = results;
+        equal(first.status === 'rejected' && first.reason.message, 'reason: 1');
+        equal(second.status === 'fulfilled' && second.value, 'b2');
+    });
+
+    test('aggregate errors', () => {
+        const seen: number[] = [];
+        let err: any;
+        try {
+            forEach(
+                [1, 2, 3, 4, 5],
+                (x: number) => {
+                    seen.push(x);
+                    if (x % 2) delayFail<void>(x, 10 - 2 * x);
+                },
+                { concurrency: 3, errors: 'aggregate' },
+            );
+        } catch (e) {
+            err = e;
+        }
+        ok(err instanceof AggregateError);
+        deepEqual(seen, [1, 2, 3, 4, 5]);
+        deepEqual(err.failures.map((f: any) => f.index), [0, 2, 4]);
+        deepEqual(err.errors.map((e: Error) => e.message), ['reason: 1', 'reason: 3', 'reason: 5']);
+        equal(err.message, '3 of 5 items failed: #0: reason: 1, #2: reason: 3, #4: reason: 5');
+    });
+
+    test('aggregate errors with map keys', () => {
+        let err: any;
+        try {
+            map(new Map([['a', 1], ['b', 2]]), (x: number) => delayFail<void>(x, 1), { errors: 'aggregate' });
+        } catch (e) {
+            err = e;
+        }
+        deepEqual(err.failures.map((f: any) => [f.index, f.key]), [[0, 'a'], [1, 'b']]);
+    });
+
+    test('aggregate mode returns results when nothing fails', () => {
+        deepEqual(map([1, 2], delay, { errors: 'aggregate' }), [1, 2]);
+    });
+});
+
+describe('cancellation', () => {
+    test('cancels a sleeping coroutine', () => {
+        const token = new CancellationToken();
+        const begin = Date.now();
+        const p = run(() => sleep(1000), { token });
+        sleep(10);
+        token.cancel('stop');
+        const err = wait(p.catch(e => e));
+        ok(err instanceof CancellationError);
+        equal(err.message, 'coroutine cancelled: stop');
+        equal(err.reason, 'stop');
+        ok(Date.now() - begin < 100);
+    });
+    test('fails subsequent waits', () => {
+        const token = new CancellationToken();
+        let count = 0;
+        const p = run(
+            () => {
+                try {
+                    sleep(1000);
+                } catch (err) {
+                    count++;
+                }
+                sleep(0);
+                count++;
+            },
+            { token },
+        );
+        token.cancel();
+        ok(wait(p.catch(e => e)) instanceof CancellationError);
+        equal(count, 1);
+    });
+    test('ignores late completion', () => {
+        const token = new CancellationToken();
+        const p = run(() => wait<string>(cb => setTimeout(() => cb(null, 'late'), 10)), { token });
+        token.cancel();
+        ok(wait(p.catch(e => e)) instanceof CancellationError);
+        sleep(20);
+    });
+    test('propagates to nested run and map', () => {
+        const token = new CancellationToken();
+        let inner: Promise<any> | undefined;
+        const p = run(
+            () => {
+                inner = run(() => sleep(1000)).catch(e => e);
+                map([1000, 1000], sleep);
+            },
+            { token },
+        );
+        sleep(10);
+        token.cancel();
+        ok(wait(p.catch(e => e)) instanceof CancellationError);
+        ok(wait(inner!) instanceof CancellationError);
+    });
+    test('cancelling a child does not cancel its parent', () => {
+        const parent = new CancellationToken();
+        const child = new CancellationToken(parent);
+        child.cancel();
+        notOk(parent.cancelled);
+        parent.cancel('all');
+        const grandChild = new CancellationToken(parent);
+        ok(grandChild.cancelled);
+        equal(grandChild.reason, 'all');
+    });
+    test('accepts an abort signal', () => {
+        const listeners: (() => void)[] = [];
+        const signal = {
+            aborted: false,
+            reason: undefined as any,
+            addEventListener(type: 'abort', listener: () => void) {
+                listeners.push(listener);
+            },
+            removeEventListener(type: 'abort', listener: () => void) {
+                listeners.splice(listeners.indexOf(listener), 1);
+            },
+        };
+        const p = run(() => sleep(1000), { token: signal });
+        equal(listeners.length, 1);
+        signal.aborted = true;
+        signal.reason = 'aborted';
+        listeners.forEach(listener => listener());
+        const err = wait(p.catch(e => e));
+        ok(err instanceof CancellationError);
+        equal(err.reason, 'aborted');
+        equal(listeners.length, 0);
+    });
+    test('cancelled queue read does not lose items', () => {
+        const queue = new Queue<number>();
+        const token = new CancellationToken();
+        const p = run(() => queue.read(), { token });
+        sleep(0);
+        token.cancel();
+        ok(wait(p.catch(e => e)) instanceof CancellationError);
+        queue.write(4);
+        strictEqual(queue.read(), 4);
+    });
+    test('cancelled queue write is withdrawn', () => {
+        const queue = new Queue<number>(1);
+        const token = new CancellationToken();
+        queue.write(4);
+        const p = run(() => queue.write(9), { token });
+        sleep(0);
+        token.cancel();
+        ok(wait(p.catch(e => e)) instanceof CancellationError);
+        strictEqual(queue.read(), 4);
+        strictEqual(queue.length, 0);
+    });
+    test('cancelled handshake wait can be waited again', () => {
+        const hk = handshake();
+        const token = new CancellationToken();
+        const p = run(() => hk.wait(), { token });
+        sleep(0);
+        token.cancel();
+        ok(wait(p.catch(e => e)) instanceof CancellationError);
+        run(() => {
+            sleep(10);
+            hk.notify();
+        });
+        hk.wait();
+    });
+});
+
+describe('timeouts', () => {
+    test('wait on promise times out', () => {
+        const begin = Date.now();
+        let err: TimeoutError | undefined;
+        try {
+            wait(new Promise<void>(() => {}), { timeout: 10 });
+        } catch (e) {
+            err = e;
+        }
+        ok(err instanceof TimeoutError);
+        equal(err!.timeout, 10);
+        closeTo(err!.elapsed, 10, 8);
+        closeTo(Date.now() - begin, 10, 8);
+        ok(/f-promise-test/.test(err!.stack || ''));
+    });
+    test('wait on callback times out and ignores late callback', () => {
+        let err: any;
+        try {
+            wait<string>(cb => setTimeout(() => cb(null, 'late'), 20), { timeout: 5 });
+        } catch (e) {
+            err = e;
+        }
+        ok(err instanceof TimeoutError);
+        sleep(30);
+    });
+    test('wait completes before timeout', () => {
+        strictEqual(wait(Promise.resolve(3), { timeout: 10 }), 3);
+        strictEqual(delay(4, 2), 4);
+        sleep(15);
+    });
+    test('withTimeout bounds a block', () => {
+        const begin = Date.now();
+        let err: any;
+        let child: Promise<any> | undefined;
+        try {
+            withTimeout(20, () => {
+                child = run(() => sleep(1000)).catch(e => e);
+                sleep(5);
+                sleep(1000);
+            });
+        } catch (e) {
+            err = e;
+        }
+        ok(err instanceof TimeoutError);
+        closeTo(err.elapsed, 20, 8);
+        closeTo(Date.now() - begin, 20, 8);
+        equal(wait(child!), err);
+        // the current coroutine is not affected once the block has been exited
+        sleep(5);
+    });
+    test('withTimeout returns the result of the block', () => {
+        strictEqual(withTimeout(50, () => delay(5, 1)), 5);
+        sleep(60);
+    });
+});
+
+describe('deadlines', () => {
+    test('wait fails when the deadline is reached', () => {
+        const t0 = Date.now();
+        try {
+            withDeadline(20, () => sleep(1000));
+            fail('should have thrown');
+        } catch (e) {
+            ok(e instanceof DeadlineExceededError);
+            ok(e instanceof TimeoutError, 'is a TimeoutError');
+            ok(e.deadline instanceof Date);
+            closeTo(Date.now() - t0, 20, 15);
+        }
+        isUndefined(remainingTime());
+    });
+    test('blocking calls fail fast once the deadline has passed', () => {
+        const queue = new Queue<number>();
+        withDeadline(new Date(Date.now() + 10), () => {
+            try {
+                sleep(20);
+            } catch (e) {
+                // swallow, to check that the next calls fail immediately
+            }
+            equal(remainingTime(), 0);
+            let called = false;
+            throws(() => wait<void>(cb => (called = true)), 'deadline exceeded');
+            ok(!called, 'operation not started');
+            throws(() => queue.read(), 'deadline exceeded');
+            throws(() => funnel(1)(() => 1), 'deadline exceeded');
+        });
+    });
+    test('deadline is inherited by child coroutines', () => {
+        withDeadline(10, () => {
+            throws(() => wait(run(() => sleep(100))), 'deadline exceeded');
+            throws(() => map([1, 2], () => sleep(100)), 'deadline exceeded');
+        });
+    });
+    test('nested deadlines cannot extend the deadline', () => {
+        withDeadline(50, () => {
+            withDeadline(1000, () => ok(remainingTime()! <= 50));
+            withDeadline(10, () => ok(remainingTime()! <= 10));
+        });
+    });
+    test('restoring a snapshot does not escape the deadline', () => {
+        const snapshot = captureContext();
+        withDeadline(10, () => {
+            equal(captureContext().size, 0, 'deadline not captured');
+            restoreContext(snapshot, () => {
+                ok(remainingTime()! <= 10);
+                throws(() => sleep(100), 'deadline exceeded');
+            });
+        });
+    });
+    test('timeout fires first when it is closer than the deadline', () => {
+        withDeadline(1000, () => {
+            try {
+                wait(cb => setTimeout(cb, 100), { timeout: 5 });
+                fail('should have thrown');
+            } catch (e) {
+                ok(!(e instanceof DeadlineExceededError));
+                equal(e.timeout, 5);
+            }
+        });
+    });
+});
+
+describe('scope', () => {
+    test('waits for all children', () => {
+        const begin = Date.now();
+        const results: number[] = [];
+        const result = scope(s => {
+            s.spawn(() => results.push(delay(1, 20)));
+            s.spawn(() => results.push(delay(2, 10)));
+            return 'done';
+        });
+        equal(result, 'done');
+        deepEqual(results, [2, 1]);
+        closeTo(Date.now() - begin, 20, 8);
+    });
+    test('returns children results through spawn promises', () => {
+        const sum = scope(s => {
+            const a = s.spawn(() => delay(3, 5));
+            const b = s.spawn(() => delay(4, 1));
+            return wait(a) + wait(b);
+        });
+        equal(sum, 7);
+    });
+    test('first child failure cancels the others and is rethrown', () => {
+        const begin = Date.now();
+        let sibling: any;
+        let err: any;
+        try {
+            scope(s => {
+                s.spawn(() => {
+                    try {
+                        sleep(1000);
+                    } catch (e) {
+                        sibling = e;
+                        throw e;
+                    }
+                });
+                s.spawn(() => delayFail<void>('child', 5));
+                sleep(1000);
+            });
+        } catch (e) {
+            err = e;
+        }
+        equal(err.message, 'reason: child');
+        ok(sibling instanceof CancellationError);
+        closeTo(Date.now() - begin, 5, 8);
+    });
+    test('body failure cancels the children', () => {
+        let child: Promise<any> | undefined;
+        let err: any;
+        try {
+            scope(s => {
+                child = s.spawn(() => sleep(1000)).catch(e => e);
+                throw new Error('body failed');
+            });
+        } catch (e) {
+            err = e;
+        }
+        equal(err.message, 'body failed');
+        ok(wait(child!) instanceof CancellationError);
+    });
+    test('explicit cancel stops children without failing', () => {
+        const result = scope(s => {
+            s.spawn(() => sleep(1000));
+            s.spawn(() => {
+                sleep(5);
+                s.cancel('found');
+            });
+            return 'ok';
+        });
+        equal(result, 'ok');
+    });
+    test('explicit cancel interrupts a waiting body without failing', () => {
+        const t0 = Date.now();
+        const result = scope(s => {
+            s.spawn(() => {
+                sleep(5);
+                s.cancel('found');
+            });
+            sleep(100);
+            return 'ok';
+        });
+        isUndefined(result);
+        ok(Date.now() - t0 < 100, 'body interrupted');
+    });
+    test('children can spawn children', () => {
+        const results: number[] = [];
+        scope(s => {
+            s.spawn(() => {
+                sleep(5);
+                s.spawn(() => results.push(delay(2, 5)));
+                results.push(1);
+            });
+        });
+        deepEqual(results, [1, 2]);
+    });
+    test('children inherit the context', () => {
+        const cx = {};
+        withContext(() => {
+            scope(s => {
+                s.spawn(() => {
+                    sleep(1);
+                    equal(context(), cx);
+                });
+            });
+        }, cx);
+    });
+    test('cannot spawn after the end of the scope', () => {
+        let saved: any;
+        scope(s => {
+            saved = s;
+        });
+        throws(() => saved.spawn(() => {}), 'cannot spawn: scope has ended');
+    });
+});
+
+describe('retry', () => {
+    test('retries until success', () => {
+        const attempts: number[] = [];
+        const result = retry(
+            attempt => {
+                attempts.push(attempt);
+                if (attempt < 3) throw new Error(`attempt ${attempt} failed`);
+                return 'ok';
+            },
+            { delay: 1 },
+        );
+        equal(result, 'ok');
+        deepEqual(attempts, [1, 2, 3]);
+    });
+    test('rethrows the last error after maxAttempts', () => {
+        let count = 0;
+        let last: Error | undefined;
+        try {
+            retry(
+                () => {
+                    count++;
+                    delayFail<void>(count, 1);
+                },
+                { maxAttempts: 4, delay: 1 },
+            );
+            fail('should have thrown');
+        } catch (e) {
+            last = e;
+        }
+        equal(count, 4);
+        equal(last!.message, 'reason: 4');
+        ok(/delayFail/.test(last!.stack!), 'full stack preserved');
+    });
+    test('backoff delays', () => {
+        const delays = (options: RetryOptions) => {
+            const result: number[] = [];
+            try {
+                retry(
+                    () => {
+                        throw new Error('failed');
+                    },
+                    { maxAttempts: 5, delay: 1, onRetry: (err, attempt, delay) => result.push(delay), ...options },
+                );
+            } catch (e) {
+                equal(e.message, 'failed');
+            }
+            return result;
+        };
+        deepEqual(delays({ backoff: 'fixed' }), [1, 1, 1, 1]);
+        deepEqual(delays({}), [1, 2, 4, 8]);
+        deepEqual(delays({ factor: 3, maxDelay: 5 }), [1, 3, 5, 5]);
+        delays({ backoff: 'decorrelatedJitter', delay: 2, maxDelay: 10 }).forEach(delay => {
+            ok(delay >= 2 && delay <= 10, `delay ${delay} in range`);
+        });
+    });
+    test('shouldRetry stops on non retryable errors', () => {
+        let count = 0;
+        throws(
+            () =>
+                retry(
+                    () => {
+                        count++;
+                        throw new Error(count === 1 ? 'transient' : 'fatal');
+                    },
+                    { delay: 1, shouldRetry: err => err.message === 'transient' },
+                ),
+            'fatal',
+        );
+        equal(count, 2);
+    });
+    test('maxTime limits the total time', () => {
+        // the attempt after a 40ms delay is made at 70ms, the next one would be made at 150ms at the earliest
+        const delays: number[] = [];
+        const t0 = Date.now();
+        throws(
+            () =>
+                retry(
+                    () => {
+                        throw new Error('failed');
+                    },
+                    {
+                        backoff: 'exponential',
+                        delay: 10,
+                        maxTime: 100,
+                        onRetry: (err, attempt, delay) => delays.push(delay),
+                    },
+                ),
+            'failed',
+        );
+        deepEqual(delays, [10, 20, 40]);
+        ok(Date.now() - t0 >= 65);
+    });
+    test('cancellation stops sleeping between attempts', () => {
+        const token = new CancellationToken();
+        let count = 0;
+        const promise = run(
+            () =>
+                retry(
+                    () => {
+                        count++;
+                        throw new Error('failed');
+                    },
+                    { delay: 1000 },
+                ),
+            { token },
+        );
+        sleep(5);
+        token.cancel('stop');
+        throws(() => wait(promise), 'coroutine cancelled: stop');
+        equal(count, 1);
+    });
+});
+
+describe('coroutine tracking', () => {
+    afterEach(() => trackCoroutines(false));
+    test('lists coroutines with their blocking operation, longest wait first', () => {
+        trackCoroutines(true);
+        const queue = new Queue<number>();
+        const hs = handshake();
+        const parent = run(() => {
+            const reader = run(() => queue.read());
+            sleep(5);
+            const waiter = run(() => hs.wait());
+            sleep(5);
+            wait(Promise.all([reader, waiter]));
+        });
+        sleep(15);
+        const infos = listCoroutines();
+        deepEqual(infos.map(info => info.operation), ['queue read', 'handshake', 'promise']);
+        equal(infos[0].parentId, infos[2].id);
+        equal(infos[1].parentId, infos[2].id);
+        ok(infos[0].waitTime! > infos[1].waitTime!);
+        ok(infos[0].blockedSince instanceof Date);
+        ok(/f-promise-test/.test(infos[0].stack!), 'stack of the blocking call');
+        const report = dumpCoroutines();
+        equal(report.indexOf('3 coroutine(s)'), 0);
+        ok(report.indexOf(`#${infos[0].id}, parent #${infos[2].id}`) > 0);
+        ok(report.indexOf('blocked on queue read for') > 0);
+        queue.put(1);
+        hs.notify();
+        wait(parent);
+        deepEqual(listCoroutines(), [], 'completed coroutines are removed');
+    });
+    test('a wait which throws synchronously does not stay blocked', () => {
+        trackCoroutines(true);
+        let starts = 0;
+        let resumes = 0;
+        const unregister = addHooks({ onWaitStart: () => starts++, onResume: () => resumes++ });
+        try {
+            const hs = handshake();
+            const waiter = run(() => hs.wait());
+            wait(
+                run(() => {
+                    throws(() => hs.wait(), 'already waiting');
+                    const infos = listCoroutines();
+                    deepEqual(infos.map(info => info.operation), ['handshake', undefined]);
+                }),
+            );
+            hs.notify();
+            wait(waiter);
+        } finally {
+            unregister();
+        }
+        equal(starts, resumes);
+    });
+    it('fibers which are not started by run are not tracked', done => {
+        trackCoroutines(true);
+        const fibers = require('fibers');
+        fibers(() => {
+            wait(Promise.resolve());
+        }).run();
+        setTimeout(() => {
+            deepEqual(listCoroutines(), []);
+            done();
+        }, 1);
+    });
+    test('reports on signal', () => {
+        trackCoroutines(true, { signal: 'SIGUSR2' });
+        const logged: string[] = [];
+        const error = console.error;
+        console.error = (msg: string) => logged.push(msg);
+        try {
+            process.emit('SIGUSR2' as any);
+        } finally {
+            console.error = error;
+        }
+        equal(logged.length, 1);
+        ok(/coroutine\(s\)/.test(logged[0]));
+        trackCoroutines(false);
+        equal(process.listenerCount('SIGUSR2'), 0);
+    });
+    test('nothing is tracked when disabled', () => {
+        deepEqual(listCoroutines(), []);
+        equal(dumpCoroutines(), '0 coroutine(s)');
+    });
+});
+
+describe('hooks', () => {
+    test('run and wait lifecycle', () => {
+        const events: string[] = [];
+        let childId = 0;
+        let waitTime = 0;
+        const unregister = addHooks({
+            onRunStart: event => {
+                childId = event.id;
+                events.push(`start ${event.context.name}`);
+            },
+            onWaitStart: event => {
+                if (event.id === childId) events.push(`wait ${event.operation}`);
+            },
+            onResume: event => {
+                if (event.id !== childId) return;
+                waitTime = event.waitTime;
+                events.push(`resume${event.error ? ' ' + event.error.message : ''}`);
+            },
+            onError: event => events.push(`error ${event.error.message}`),
+            onRunEnd: event => events.push(`end ${event.duration >= 0}`),
+        });
+        try {
+            withContext(
+                () =>
+                    throws(
+                        () =>
+                            wait(
+                                run(() => {
+                                    sleep(5);
+                                    delayFail<void>('boom', 1);
+                                }),
+                            ),
+                        'reason: boom',
+                    ),
+                { name: 'cx' },
+            );
+        } finally {
+            unregister();
+        }
+        deepEqual(events, [
+            'start cx',
+            'wait sleep 5ms',
+            'resume',
+            'wait thunk',
+            'resume reason: boom',
+            'error reason: boom',
+            'end true',
+        ]);
+        ok(waitTime >= 0);
+        wait(run(() => sleep(1)));
+        equal(events.length, 7, 'unregistered');
+    });
+    test('hook errors are ignored', () => {
+        const error = console.error;
+        const logged: string[] = [];
+        console.error = (msg: string) => logged.push(msg);
+        const unregister = addHooks({
+            onRunStart: () => {
+                throw new Error('hook failed');
+            },
+        });
+        try {
+            equal(wait(run(() => 'ok')), 'ok');
+        } finally {
+            unregister();
+            console.error = error;
+        }
+        equal(logged.length, 1);
+        ok(/onRunStart hook failed: Error: hook failed/.test(logged[0]));
+    });
+});
+
+describe('stack traces', () => {
+    function failure(fn: () => void): Error {
+        try {
+            fn();
+        } catch (e) {
+            return e;
+        }
+        throw new Error('no failure');
+    }
+    test('causal mode chains the run() calls', () => {
+        const err: any = failure(() =>
+            configureStackTraces({ mode: 'causal' }, () => map([1, 2], (x: number) => (x === 2 ? delayFail<number>(x) : x))),
+        );
+        equal(err.message, 'reason: 2');
+        ok(/^Error: coroutine #\d+ started/.test(err.cause.stack), 'cause is the spawn site');
+        ok(/f-promise-test/.test(err.cause.stack), 'spawn site in test file');
+        notOk(Object.keys(err).indexOf('cause') >= 0, 'cause is not enumerable');
+    });
+    test('causal mode keeps an existing cause', () => {
+        const cause = new Error('root');
+        const err: any = failure(() =>
+            configureStackTraces({ mode: 'causal' }, () =>
+                wait(
+                    run(() => {
+                        const e: any = new Error('wrapped');
+                        e.cause = cause;
+                        throw e;
+                    }),
+                ),
+            ),
+        );
+        equal(err.cause, cause);
+    });
+    test('default mode does not set a cause', () => {
+        const err: any = failure(() => wait(run(() => delayFail<void>(1))));
+        isUndefined(err.cause);
+    });
+    test('fast mode leaves the stack unchanged', () => {
+        const err = failure(() => configureStackTraces({ mode: 'fast' }, () => delayFail<void>(1)));
+        notOk(/__f-promise/.test(err.stack || ''));
+    });
+    test('whole mode appends the coroutine stack', () => {
+        const err = failure(() => configureStackTraces({ mode: 'whole' }, () => delayFail<void>(1)));
+        ok(/__f-promise/.test(err.stack || ''));
+    });
+    test('filter and maxDepth', () => {
+        const frames = (options: StackTraceOptions) =>
+            failure(() => configureStackTraces(options, () => delayFail<void>(1)))
+                .stack!.split('\n')
+                .filter(line => !!line).length;
+        const all = frames({});
+        const limited = frames({ maxDepth: 1 });
+        const filtered = frames({ filter: () => false });
+        ok(limited < all, 'maxDepth drops frames');
+        equal(filtered, limited - 1, 'filter drops frames');
+    });
+    test('the configuration is not captured nor reset by restoreContext', () => {
+        const snapshot = captureContext();
+        configureStackTraces({ mode: 'whole' }, () => {
+            equal(captureContext().size, 0);
+            const err = failure(() => restoreContext(snapshot, () => delayFail<void>(1)));
+            ok(/__f-promise/.test(err.stack || ''));
+        });
+    });
+    test('global configuration', () => {
+        configureStackTraces({ mode: 'causal' });
+        try {
+            const err: any = failure(() => wait(run(() => delayFail<void>(1))));
+            ok(/coroutine #\d+ started/.test(err.cause.message));
+        } finally {
+            configureStackTraces({ mode: 'default' });
+        }
+        isUndefined((failure(() => wait(run(() => delayFail<void>(1)))) as any).cause);
+    });
+});
+
+describe('fiberize', () => {
+    class Client {
+        prefix = 'x';
+        get(key: string, cb: (err: any, result: string) => void) {
+            setTimeout(() => cb(null, this.prefix + key), 0);
+        }
+        fetch(key: string): Promise<string> {
+            return Promise.resolve(this.prefix + key);
+        }
+        fail(cb: (err: any) => void) {
+            setTimeout(() => cb(new Error('failed')), 0);
+        }
+    }
+    test('node callback API', () => {
+        const api = fiberize(fs);
+        const names: string[] = api.readdir(__dirname);
+        ok(names.indexOf('f-promise-test.js') >= 0);
+        ok(api.existsSync(__dirname), 'Sync functions are not wrapped');
+    });
+    test('promise API', () => {
+        const names: string[] = fiberize(mzfs).readdir(__dirname);
+        ok(names.indexOf('f-promise-test.js') >= 0);
+    });
+    test('methods are called on the object', () => {
+        const api = fiberize(new Client());
+        equal(api.get('a'), 'xa');
+        equal(api.fetch('b'), 'xb');
+        throws(() => api.fail(), 'failed');
+        equal(api.prefix, 'x');
+    });
+    test('explicit styles and exclusions', () => {
+        const obj = {
+            promised: (...args: any[]) => Promise.resolve(args.length),
+            called: (cb: (err: any, result: string) => void) => {
+                setTimeout(() => cb(null, 'called'), 0);
+                return { then: () => {} };
+            },
+            excluded: (cb: (err: any, result: string) => void) => 'excluded',
+        };
+        const api = fiberize(obj, { promise: ['promised'], callback: ['called'], exclude: ['excluded'] });
+        equal(api.promised(), 0, 'no callback passed');
+        equal(api.called(), 'called', 'promise result ignored');
+        equal(api.excluded, obj.excluded);
+    });
+    test('synchronous methods return their result', () => {
+        const api = fiberize({
+            add(a: number, b: number) {
+                return a + b;
+            },
+            early(cb: (err: any, result: string) => void) {
+                cb(null, 'early');
+            },
+        });
+        equal(api.add(1, 2), 3);
+        equal(api.early(), 'early', 'callback called before the method returns');
+        const stream = fiberize(fs).createReadStream(__filename);
+        ok(stream instanceof fs.ReadStream);
+        stream.destroy();
+    });
+    test('synchronous methods which return undefined must be excluded', () => {
+        const logged: string[] = [];
+        const logger = {
+            log(message: string) {
+                logged.push(message);
+            },
+        };
+        // without the exclusion, log would be passed a callback and waited on forever
+        const api = fiberize(logger, { exclude: ['log'] });
+        api.log('hello');
+        deepEqual(logged, ['hello']);
+        equal(api.log, logger.log);
+    });
+});
+
+describe('asyncify', () => {
+    const double = asyncify((x: number) => delay(2 * x));
+    it('returns a promise to async code', () => {
+        ok(!canWait());
+        return double(2).then(result => equal(result, 4));
+    });
+    it('rejects with the error of the function', () => {
+        const failing = asyncify(delayFail);
+        return failing(1).then(() => fail('no error'), err => equal(err.message, 'reason: 1'));
+    });
+    test('reuses the current fiber', () => {
+        const cx = {};
+        let called = false;
+        const current = asyncify(() => ((called = true), context()));
+        const promise = withContext(current, cx);
+        ok(called, 'called synchronously');
+        ok(promise instanceof Promise);
+        equal(wait(promise), cx);
+        const failing = asyncify(() => {
+            throw new Error('sync failure');
+        });
+        throws(() => wait(failing()), 'sync failure');
+    });
+    (AsyncLocalStorage ? it : it.skip)('carries the context of AsyncLocalStorage', () => {
+        const storage = new AsyncLocalStorage();
+        const store = { user: 'dave' };
+        const current = asyncify(() => (sleep(1), context()));
+        useAsyncLocalStorage(storage);
+        return new Promise<any>((resolve, reject) => {
+            storage.run(store, () => setTimeout(() => current().then(resolve, reject), 1));
+        }).then(
+            cx => {
+                useAsyncLocalStorage(undefined);
+                storage.disable();
+                equal(cx, store);
+            },
+            err => {
+                useAsyncLocalStorage(undefined);
+                storage.disable();
+                throw err;
+            },
+        );
+    });
+    it('preserves this and arity', () => {
+        const obj = {
+            factor: 3,
+            multiply: asyncify(function(this: { factor: number }, x: number) {
+                return this.factor * delay(x);
+            }),
+        };
+        equal(obj.multiply.length, 1);
+        return obj.multiply(2).then(result => equal(result, 6));
+    });
+    it('decorates methods and classes', () => {
+        class Service {
+            constructor(public name: string) {}
+            @asyncified
+            greet(who: string) {
+                return `${this.name} greets ${delay(who)}`;
+            }
+        }
+        @asyncified
+        class Greeter {
+            hello() {
+                return delay('hello');
+            }
+        }
+        const service = (new Service('svc') as any) as Asyncified<Service>;
+        const greeter = (new Greeter() as any) as Asyncified<Greeter>;
+        return Promise.all([service.greet('bob'), greeter.hello()]).then(results =>
+            deepEqual(results, ['svc greets bob', 'hello']),
+        );
+    });
 });
 
 describe('canWait', () => {
@@ -418,4 +2364,70 @@ describe('eventHandler', () => {
             }, cx);
         });
     });
+    it('sends errors to the onError option', done => {
+        eventHandler(
+            () => {
+                sleep(1);
+                throw new Error('boom');
+            },
+            { onError: err => (equal(err.message, 'boom'), done()) },
+        )();
+    });
+    it('sends errors to eventHandler.onError by default', done => {
+        const defaultHandler = (eventHandler as any).onError;
+        (eventHandler as any).onError = (err: Error) => {
+            (eventHandler as any).onError = defaultHandler;
+            equal(err.message, 'boom');
+            done();
+        };
+        eventHandler(() => {
+            throw new Error('boom');
+        })();
+    });
+    it('inherits the context captured at wrap time', done => {
+        const cx = { user: 'erin' };
+        run(() =>
+            withContext(() => {
+                const handler = eventHandler(
+                    () => {
+                        equal(context().user, 'erin');
+                        notEqual(context(), cx);
+                        done();
+                    },
+                    { context: 'inherit' },
+                );
+                setTimeout(handler, 0);
+            }, cx),
+        );
+    });
+    it('creates the context with a factory', done => {
+        const cx = { user: 'frank' };
+        eventHandler(
+            () => {
+                equal(context(), cx);
+                done();
+            },
+            { context: () => cx },
+        )();
+    });
+    it('limits concurrency with a funnel', done => {
+        let active = 0;
+        let maxActive = 0;
+        let completed = 0;
+        const handler = eventHandler(
+            () => {
+                maxActive = Math.max(maxActive, ++active);
+                sleep(2);
+                active--;
+                if (++completed === 3) {
+                    equal(maxActive, 1);
+                    done();
+                }
+            },
+            { funnel: funnel(1) },
+        );
+        handler();
+        handler();
+        handler();
+    });
 });